@@ -1,17 +1,49 @@
 import * as React from "react";
-import Panzoom, { PanzoomObject } from "@panzoom/panzoom";
+import Panzoom, { PanzoomObject, PanzoomOptions } from "@panzoom/panzoom";
 import type {
   Node,
   Edge,
   Position,
+  Rect,
   NodeComponentProps,
   EdgeComponentProps,
   IncompleteEdgeComponentProps,
+  MarqueeComponentProps,
+  GuideComponentProps,
+  DropPreviewComponentProps,
+  GraphSelection,
+  NodeDragEventDetails,
   NodeEventDetails,
   EdgeEventDetails,
   CreateEdgeEventDetails,
+  ConnectionDetails,
+  EdgeHandleComponentProps,
+  PortComponentProps,
+  ReconnectEdgeEventDetails,
+  DetachEdgeEventDetails,
+  ResizeHandleComponentProps,
+  NodeResizeEventDetails,
+  ReparentNodesEventDetails,
+  WaypointHandleComponentProps,
+  EdgeWaypointsEventDetails,
+  NodeShape,
 } from "./types";
-import { assertNonNull, assertEqual, objectEntries } from "./lang";
+import { EdgeEnd, ResizeHandle, NodeShapeType } from "./types";
+import { assertNonNull, objectEntries, objectValues } from "./lang";
+import {
+  PathType,
+  PathDirection,
+  pathGeometry,
+  selfEdgeGeometry,
+  geometryD,
+  parallelEdgeOffset,
+  snapToGrid,
+  DEFAULT_PARALLEL_EDGE_SPACING,
+} from "./util";
+import { PlacedShape, clipPathToShapes, getShapeBounds } from "./shapes";
+import { RouteCache, RouteRequest, routeOrthogonalEdges, DEFAULT_ROUTING_MARGIN } from "./routing";
+import { getAncestorIds, getDescendantIds, getVisibleNodeIds } from "./groups";
+import { EasingFunction, easeInOutCubic } from "./easing";
 
 interface PanzoomEvent {
   detail: {
@@ -27,11 +59,64 @@ export interface Grid {
   fill?: string;
 }
 
+// The world-space position that is displayed at the center of the viewport.
 export interface Pan {
   x: number;
   y: number;
 }
 
+export interface Viewport {
+  pan: Pan;
+  zoom: number;
+  // The region of world space that is currently visible.
+  bounds: Rect;
+}
+
+export interface Snap {
+  // In world units. Dragged nodes' positions are rounded to multiples of this; 0 disables it.
+  gridSize: number;
+  // Whether to snap dragged nodes' centers and edges to those of other nodes, and draw guides to
+  // show which ones they've aligned with. Guides take precedence over the grid.
+  guides: boolean;
+  // In screen pixels, how close a node must be to alignment before it's snapped.
+  guideThreshold: number;
+}
+
+export interface AutoPan {
+  // In screen pixels, how close to the edge of the graph the pointer must be to start panning.
+  margin: number;
+  // In screen pixels per second, how fast to pan when the pointer is at (or past) the edge. This
+  // falls off linearly to zero at the inner edge of the margin.
+  speed: number;
+}
+
+export interface Resize {
+  // In world units.
+  minWidth: number;
+  minHeight: number;
+  maxWidth: number;
+  maxHeight: number;
+  // Keeps the ratio of width to height that the node had when the resize started.
+  lockAspectRatio: boolean;
+}
+
+export interface EdgeLayout {
+  pathType: PathType;
+  pathDirection: PathDirection;
+  // In world units, the distance between edges that attach to the same ends.
+  parallelSpacing: number;
+  // In world units, roughly how far self-edges loop out from their node.
+  selfEdgeRadius: number;
+  // In world units, how far edges keep from the nodes they go around with PathType.ORTHOGONAL.
+  routingMargin: number;
+}
+
+export interface ViewportAnimation {
+  duration: number;
+  easing: EasingFunction;
+}
+
+// Bounds, in world space, on where the center of the viewport may be panned to.
 export interface PanConstraints {
   xMin: number;
   xMax: number;
@@ -45,6 +130,28 @@ export interface ZoomConstraints {
   speed: number;
 }
 
+export enum MarqueeMode {
+  // Select exactly what's in the marquee.
+  REPLACE = "replace",
+  // Add what's in the marquee to the existing selection.
+  ADD = "add",
+  // Flip the selectedness of everything in the marquee.
+  TOGGLE = "toggle",
+}
+
+export interface AriaAttributes {
+  role?: string;
+  label?: string;
+  description?: string;
+}
+
+export interface LongPress {
+  // In milliseconds.
+  delay: number;
+  // How far, in screen pixels, the pointer may wander before it's no longer a long press.
+  tolerance: number;
+}
+
 export interface Props<N extends Node = Node, E extends Edge = Edge, X extends object = {}> {
   nodes: Record<string, N>;
   edges: Record<string, E>;
@@ -53,30 +160,155 @@ export interface Props<N extends Node = Node, E extends Edge = Edge, X extends o
   nodeComponent: React.ComponentType<NodeComponentProps<N> & X>;
   edgeComponent: React.ComponentType<EdgeComponentProps<N, E> & X>;
   incompleteEdgeComponent?: React.ComponentType<IncompleteEdgeComponentProps<N> & X>;
+  marqueeComponent?: React.ComponentType<MarqueeComponentProps & X>;
+  guideComponent?: React.ComponentType<GuideComponentProps & X>;
+  dropPreviewComponent?: React.ComponentType<DropPreviewComponentProps & X>;
   extraProps?: X;
 
-  // TODO: All of these.
-  // pan?: Partial<Pan> | boolean;
-  // onPan?: (pan: Pan) => void;
-  // panConstraints?: Partial<PanConstraints>;
-  // zoom?: number | boolean;
-  // onZoom?: (zoom: number) => void;
-  // zoomConstraints?: Partial<ZoomConstraints>;
+  // Ports are named points, relative to their node's position, that edges can attach to. Pressing
+  // on a port always starts creating an edge from it, and dropping an edge on a node with ports
+  // attaches it to the port under the pointer or, failing that, the nearest one. For the sake of
+  // memoization, this should be referentially stable.
+  getNodePorts?: (node: N, id: string) => Record<string, Position>;
+  portComponent?: React.ComponentType<PortComponentProps<N> & X>;
+
+  // Edges are clipped to the shapes of the nodes at their ends, except for ends that attach to a
+  // port, which are assumed to be on the boundary already. By default, nodes with a width and height
+  // are rectangles and others aren't clipped. For the sake of memoization, this should be
+  // referentially stable.
+  getNodeShape?: (node: N, id: string) => NodeShape | undefined;
+  // How the path passed to the edge component is laid out. With PathType.ORTHOGONAL, edges are
+  // routed around the shapes of the other nodes (see getNodeShape) using routeOrthogonalEdges, and
+  // parallel edges and any others that would overlap are kept parallelSpacing apart.
+  edgeLayout?: Partial<EdgeLayout>;
+
+  // Like form inputs, pan and zoom can be controlled (provide `pan`/`zoom` and update them from
+  // `onPan`/`onZoom`) or uncontrolled (optionally provide `defaultPan`/`defaultZoom`).
+  pan?: Pan;
+  defaultPan?: Pan;
+  onPan?: (pan: Pan) => void;
+  zoom?: number;
+  defaultZoom?: number;
+  onZoom?: (zoom: number) => void;
+  // How to transition between viewports when they're changed programmatically, i.e., by changing
+  // controlled props or calling methods such as centerOn. Any user pan or zoom cancels the
+  // transition. Defaults to no animation.
+  viewportAnimation?: Partial<ViewportAnimation> | boolean;
+
+  // "content" constrains panning such that the center of the viewport is always within the
+  // bounding box of the nodes, which in turn means that some content is always visible.
+  panConstraints?: Partial<PanConstraints> | "content";
+  zoomConstraints?: Partial<ZoomConstraints>;
+
+  // Applies to node drags, both while they're previewed and when they're reported by
+  // onNodeDragEnd. When true, the grid size defaults to the grid's spacing.
+  snap?: Partial<Snap> | boolean;
+  // Pans the viewport while a node drag, resize or edge creation is held near its edge. Enabled by
+  // default.
+  autoPan?: Partial<AutoPan> | boolean;
+
+  // Draws handles around selected nodes that have a width and height. Since sized nodes are
+  // centered on their position, dragging one side moves the position as well as the size.
+  resizable?: Partial<Resize> | boolean;
+  resizeHandleComponent?: React.ComponentType<ResizeHandleComponentProps<N> & X>;
+  onNodeResizeEnd?: (e: PointerEvent, details: NodeResizeEventDetails<N>) => void;
 
+  // Selection is fully controlled: only marquee selections are performed internally, and they are
+  // only reported through onSelectionChange.
+  selectedNodeIds?: string[];
+  selectedEdgeIds?: string[];
+  onSelectionChange?: (e: PointerEvent, selection: GraphSelection) => void;
+
+  // Groups are nodes that other nodes name as their parentId. Nodes nested inside a collapsed group
+  // are hidden, and their edges are drawn to the outermost collapsed group instead, except for those
+  // that run entirely within it, which are hidden too.
+  collapsedNodeIds?: string[];
+  // Fired after onNodeDragEnd when dragged nodes are dropped into, or out of, a group. Any node with
+  // a width and height can be dropped into, and the innermost one under the pointer wins.
+  onReparentNodes?: (e: PointerEvent, details: ReparentNodesEventDetails<N>) => void;
+
+  // Checked before shouldStartPan; if both would start, the marquee wins.
+  shouldStartMarquee?: (e: React.PointerEvent) => boolean;
+  // By default, Shift adds to the selection and Ctrl/Cmd toggles it.
+  getMarqueeMode?: (e: React.PointerEvent) => MarqueeMode;
   // TODO: Move this into PanConstraints -> PanSettings?
-  shouldStartPan?: (e: React.MouseEvent) => boolean;
+  shouldStartPan?: (e: React.PointerEvent) => boolean;
   // TODO
-  // shouldZoom?: (e: React.MouseEvent) => boolean;
+  // shouldZoom?: (e: React.PointerEvent) => boolean;
 
-  onClickNode?: (e: React.MouseEvent, details: NodeEventDetails<N>) => void;
-  onClickEdge?: (e: React.MouseEvent, details: EdgeEventDetails<N, E>) => void;
+  // These are also fired when a focused node/edge is activated with Enter or Space.
+  onClickNode?: (e: React.MouseEvent | React.KeyboardEvent, details: NodeEventDetails<N>) => void;
+  onClickEdge?: (
+    e: React.MouseEvent | React.KeyboardEvent,
+    details: EdgeEventDetails<N, E>,
+  ) => void;
   onClickBackground?: (e: React.MouseEvent, position: Position) => void;
+  // When the respective double-click callback is provided, the second click of a double-click
+  // fires only that, rather than also firing a second single click.
+  onDoubleClickNode?: (e: React.MouseEvent, details: NodeEventDetails<N>) => void;
+  onDoubleClickEdge?: (e: React.MouseEvent, details: EdgeEventDetails<N, E>) => void;
+  onDoubleClickBackground?: (e: React.MouseEvent, position: Position) => void;
+  // Call e.preventDefault() to suppress the browser's own menu. These aren't fired for long
+  // presses that are used to create edges.
+  onContextMenuNode?: (e: React.MouseEvent, details: NodeEventDetails<N>) => void;
+  onContextMenuEdge?: (e: React.MouseEvent, details: EdgeEventDetails<N, E>) => void;
+  onContextMenuBackground?: (e: React.MouseEvent, position: Position) => void;
+  // Hovers are not reported for other items while the pointer is captured by a gesture, such as
+  // dragging a node.
+  onHoverStartNode?: (e: React.PointerEvent, details: NodeEventDetails<N>) => void;
+  onHoverEndNode?: (e: React.PointerEvent, details: NodeEventDetails<N>) => void;
+  onHoverStartEdge?: (e: React.PointerEvent, details: EdgeEventDetails<N, E>) => void;
+  onHoverEndEdge?: (e: React.PointerEvent, details: EdgeEventDetails<N, E>) => void;
+  onHoverStartBackground?: (e: React.PointerEvent, position: Position) => void;
+  onHoverEndBackground?: (e: React.PointerEvent, position: Position) => void;
+
+  // Providing onDropBackground makes the graph an HTML5 drag-and-drop target for things dragged in
+  // from outside it. shouldAcceptDrop can refuse some drags, e.g. based on e.dataTransfer.types.
+  shouldAcceptDrop?: (e: React.DragEvent) => boolean;
+  onDropBackground?: (e: React.DragEvent, position: Position, dataTransfer: DataTransfer) => void;
+
+  shouldStartNodeDrag?: (e: PointerEvent, details: NodeEventDetails<N>) => boolean;
+  // Dragging (or Shift+Arrow moving) a selected node moves the entire node selection with it, and
+  // moving a group moves everything nested inside it.
+  // This is also fired when a focused node is moved with Shift+Arrow.
+  onNodeDragEnd?: (e: PointerEvent | KeyboardEvent, details: NodeDragEventDetails<N>) => void;
 
-  shouldStartNodeDrag?: (e: MouseEvent, details: NodeEventDetails<N>) => boolean;
-  onNodeDragEnd?: (e: MouseEvent, details: NodeEventDetails<N>) => void;
+  shouldStartCreateEdge?: (e: React.PointerEvent, details: NodeEventDetails<N>) => boolean;
+  // Touch and pen pointers don't have modifier keys to distinguish creating edges from dragging,
+  // so by default, a long press on a node starts creating an edge from it instead.
+  longPressCreateEdge?: Partial<LongPress> | boolean;
+  onCreateEdgeEnd?: (e: PointerEvent, details: CreateEdgeEventDetails<N>) => void;
+  // Checked while hovering over potential targets when creating or reconnecting edges. Drops on
+  // targets that fail this check are ignored. See connection.ts for some common rules.
+  canConnect?: (details: ConnectionDetails<N>) => boolean;
 
-  shouldStartCreateEdge?: (e: React.MouseEvent, details: NodeEventDetails<N>) => boolean;
-  onCreateEdgeEnd?: (e: React.MouseEvent, details: CreateEdgeEventDetails<N>) => void;
+  // When onReconnectEdgeEnd is provided, handles are drawn near both ends of selected edges.
+  // Dragging one detaches that end of the edge until it's dropped on a node.
+  edgeHandleComponent?: React.ComponentType<EdgeHandleComponentProps<E> & X>;
+  // In world units, how far along the edge from each node the handle is drawn, so it isn't hidden
+  // underneath the node.
+  edgeHandleOffset?: number;
+  onReconnectEdgeEnd?: (e: PointerEvent, details: ReconnectEdgeEventDetails<N, E>) => void;
+  // Fired when a detached end is dropped on the background. If omitted, doing so cancels the
+  // reconnection.
+  onDetachEdgeEnd?: (e: PointerEvent, details: DetachEdgeEventDetails<E>) => void;
+
+  // When onEdgeWaypointsChange is provided, handles are drawn on the waypoints of selected edges and
+  // halfway between each consecutive pair of points along them. Dragging a waypoint moves it,
+  // dragging a midpoint adds a new waypoint there, and double-clicking a waypoint removes it.
+  waypointHandleComponent?: React.ComponentType<WaypointHandleComponentProps<E> & X>;
+  onEdgeWaypointsChange?: (
+    e: PointerEvent | MouseEvent,
+    details: EdgeWaypointsEventDetails<E>,
+  ) => void;
+
+  ariaLabel?: string;
+  getNodeAriaAttributes?: (node: N, id: string) => AriaAttributes;
+  getEdgeAriaAttributes?: (edge: E, id: string, source: N, target: N) => AriaAttributes;
+  // In screen pixels.
+  keyboardPanStep?: number;
+  // In world units.
+  keyboardMoveStep?: number;
 
   className?: string;
   style?: React.SVGAttributes<SVGSVGElement>["style"];
@@ -86,39 +318,206 @@ export interface Props<N extends Node = Node, E extends Edge = Edge, X extends o
 export const DEFAULT_MIN_ZOOM = 0.25;
 export const DEFAULT_MAX_ZOOM = 2;
 export const DEFAULT_ZOOM_SPEED = 0.15;
+export const DEFAULT_PAN: Pan = { x: 0, y: 0 };
+export const DEFAULT_ZOOM = 1;
 export const DEFAULT_GRID_DOT_SIZE = 2;
 export const DEFAULT_GRID_SPACING = 50;
 export const DEFAULT_GRID_FILL = "#dddddd";
 export const DEFAULT_CLICK_FUDGE_FACTOR = 2;
+export const DEFAULT_FIT_PADDING = 50;
+export const DEFAULT_LONG_PRESS_DELAY = 500;
+export const DEFAULT_LONG_PRESS_TOLERANCE = 10;
+export const DEFAULT_KEYBOARD_PAN_STEP = 50;
+export const DEFAULT_KEYBOARD_MOVE_STEP = 10;
+export const DEFAULT_VIEWPORT_ANIMATION_DURATION = 300;
+export const DEFAULT_VIEWPORT_ANIMATION_EASING = easeInOutCubic;
+export const DEFAULT_EDGE_HANDLE_OFFSET = 50;
+export const DEFAULT_EDGE_HANDLE_RADIUS = 6;
+export const DEFAULT_PORT_RADIUS = 5;
+export const DEFAULT_SNAP_GUIDE_THRESHOLD = 5;
+export const DEFAULT_AUTO_PAN_MARGIN = 40;
+export const DEFAULT_AUTO_PAN_SPEED = 600;
+export const DEFAULT_RESIZE_MIN_SIZE = 10;
+export const DEFAULT_RESIZE_HANDLE_SIZE = 8;
+export const DEFAULT_WAYPOINT_HANDLE_RADIUS = 5;
+export const DEFAULT_SELF_EDGE_RADIUS = 100;
+
+export function DefaultPort(props: PortComponentProps) {
+  return (
+    <circle
+      cx={props.position.x}
+      cy={props.position.y}
+      r={DEFAULT_PORT_RADIUS}
+      fill="white"
+      stroke="black"
+      strokeWidth={1}
+      style={{ cursor: "crosshair" }}
+    />
+  );
+}
+
+export function DefaultEdgeHandle(props: EdgeHandleComponentProps) {
+  return (
+    <circle
+      cx={props.position.x}
+      cy={props.position.y}
+      r={DEFAULT_EDGE_HANDLE_RADIUS}
+      fill="white"
+      stroke="blue"
+      strokeWidth={1}
+      style={{ cursor: "crosshair" }}
+    />
+  );
+}
+
+export function DefaultResizeHandle(props: ResizeHandleComponentProps) {
+  return (
+    <rect
+      x={props.position.x - DEFAULT_RESIZE_HANDLE_SIZE / 2}
+      y={props.position.y - DEFAULT_RESIZE_HANDLE_SIZE / 2}
+      width={DEFAULT_RESIZE_HANDLE_SIZE}
+      height={DEFAULT_RESIZE_HANDLE_SIZE}
+      fill="white"
+      stroke="blue"
+      strokeWidth={1}
+      style={{ cursor: `${props.handle}-resize` }}
+    />
+  );
+}
+
+export function DefaultWaypointHandle(props: WaypointHandleComponentProps) {
+  return (
+    <circle
+      cx={props.position.x}
+      cy={props.position.y}
+      r={DEFAULT_WAYPOINT_HANDLE_RADIUS}
+      fill={props.isMidpoint ? "rgba(255, 255, 255, 0.5)" : "white"}
+      stroke="blue"
+      strokeWidth={1}
+      strokeDasharray={props.isMidpoint ? "2,2" : undefined}
+      style={{ cursor: "move" }}
+    />
+  );
+}
 
 interface ScreenPosition {
   screenX: number;
   screenY: number;
 }
 
-interface NodeDragState {
+type PointerPosition = ScreenPosition & { pointerId: number; clientX: number; clientY: number };
+
+// Gestures that track the pointer in world space, which can change underneath it without the pointer
+// moving if the viewport is panned (e.g. by auto-panning) mid-gesture.
+interface PannableGesture {
+  start: ScreenPosition;
+  // The pan at the time of start.
+  startPan: Pan;
+}
+
+interface NodeDragState extends PannableGesture {
+  pointerId: number;
   nodeId: string;
+  // Includes nodeId.
+  nodeIds: string[];
   start: ScreenPosition;
   last: ScreenPosition;
+  // Only set if snapping to guides. Measured once when the drag starts.
+  guideTargets?: GuideTargets;
+}
+
+interface GuideTargets {
+  // The world space bounds of the grabbed node when the drag started.
+  bounds: Rect;
+  // The bounds of all the nodes that aren't being dragged.
+  others: Rect[];
+}
+
+interface SnappedDrag {
+  offset: Position;
+  guides: GuideComponentProps[];
+}
+
+interface NodeResizeState extends PannableGesture {
+  pointerId: number;
+  nodeId: string;
+  handle: ResizeHandle;
+  last: ScreenPosition;
+  // The world space bounds of the node when the resize started.
+  startRect: Rect;
+}
+
+interface WaypointDragState extends PannableGesture {
+  pointerId: number;
+  edgeId: string;
+  index: number;
+  // Whether this inserts a new waypoint at index, rather than moving the existing one.
+  isMidpoint: boolean;
+  last: ScreenPosition;
+  // The world space position of the waypoint when the drag started.
+  origin: Position;
 }
 
 interface PanState {
+  pointerId: number;
   panning: boolean;
   start: ScreenPosition;
   last: ScreenPosition;
 }
 
-interface EdgeCreateState {
+interface MarqueeState {
+  pointerId: number;
+  mode: MarqueeMode;
+  start: ScreenPosition;
+  // In world space.
+  startPosition: Position;
+  lastPosition: Position;
+}
+
+interface AutoPanState {
+  pointerId: number;
+  last: PointerPosition;
+  lastTime: number;
+  frame: number;
+}
+
+interface LongPressState {
+  pointerId: number;
+  nodeId: string;
+  start: ScreenPosition;
+  last: ScreenPosition;
+  timeout: number;
+}
+
+interface EdgeCreateState extends PannableGesture {
+  pointerId: number;
   sourceId: string;
+  sourcePort?: string;
   targetId?: string;
+  targetPort?: string;
   start: ScreenPosition;
   last: ScreenPosition;
+  // The world space position corresponding to start.
+  origin: Position;
   didLeaveOriginalNode: boolean;
+  // Set when an existing edge is being reconnected, in which case sourceId is the end that stays.
+  reconnect?: { edgeId: string; end: EdgeEnd };
+}
+
+// The node or edge that is in the tab order, i.e., the target of the roving tabindex.
+interface ActiveItem {
+  type: "node" | "edge";
+  id: string;
 }
 
 interface State {
   incompleteEdge?: EdgeCreateState;
   dragState?: NodeDragState;
+  resizeState?: NodeResizeState;
+  waypointDrag?: WaypointDragState;
+  marquee?: MarqueeState;
+  activeItem?: ActiveItem;
+  dropPreview?: DropPreviewComponentProps;
 }
 
 export class Graph<
@@ -135,6 +534,8 @@ export class Graph<
 
   private root = React.createRef<SVGSVGElement>();
   private background = React.createRef<SVGRectElement>();
+  private nodeLayer = React.createRef<SVGGElement>();
+  private edgeLayer = React.createRef<SVGGElement>();
 
   // Note that zooming and panning are handled separately. This is because -- while we want to zoom
   // with all the normal interactions always (scroll, pinch) on the pan/zoom transform container
@@ -146,6 +547,25 @@ export class Graph<
   // panzoom and keep the zoom interactions enabled, then forward pans to it manually.
   private transform: PanzoomObject | undefined;
   private pan: PanState | undefined;
+  private longPress: LongPressState | undefined;
+  private autoPan: AutoPanState | undefined;
+
+  // The viewport as most recently reported to (or received from) the consumer. This is used both
+  // to avoid firing redundant callbacks and to avoid re-applying controlled values that originated
+  // from our own callbacks in the first place.
+  private lastPan: Pan | undefined;
+  private lastZoom: number | undefined;
+  // Routing is expensive and most renders don't move anything, so the routes are reused as long as
+  // the props and gestures they depend on are the same. Individual routes are reused when they come
+  // out the same, too, so that edges that weren't affected don't re-render.
+  private lastEdgeRouting: { inputs: unknown[]; routes: Record<string, Position[]> } | undefined;
+  // When they aren't, only the routes near whatever changed are searched for again.
+  private edgeRouteCache = new RouteCache();
+  private viewportAnimationFrame: number | undefined;
+  private viewportListeners = new Set<(viewport: Viewport) => void>();
+  // Set while we move the transform ourselves, to tell those changes apart from the ones Panzoom
+  // makes on its own, i.e., pinches.
+  private isSettingPan = false;
 
   // These two refs are a bit of a hack, but they seem stable enough. The idea is that both node
   // dragging and background panning have the same problem: we want to support mouseup-mousedown to
@@ -174,15 +594,61 @@ export class Graph<
   // race conditions that might arise from this state management.
   private shouldSkipNextNodeClick: string | undefined;
   private shouldSkipNextBackgroundClick: boolean = false;
+  // A double-click is always preceded by its second click, so if that click was swallowed by the
+  // above, so is the double-click.
+  private didSkipLastClick = false;
 
   render() {
     const scale = this.transform?.getScale() ?? 1;
-    const { incompleteEdge, dragState } = this.state;
+    const { incompleteEdge, dragState, resizeState, marquee, dropPreview } = this.state;
+    const selection = this._getRenderedSelection();
+    const draggedNodeIds = new Set(dragState?.nodeIds);
+    const snappedDrag = dragState ? this._getSnappedDrag(dragState, dragState.last) : undefined;
+    const dragOffset = snappedDrag?.offset;
+    const resized = resizeState
+      ? this._getNodeResizeEventDetails(resizeState, resizeState.last)
+      : undefined;
+    const visibleNodeIds = this._getVisibleNodeIds();
+    const collapsedNodeIds = new Set(this.props.collapsedNodeIds);
+    const groupIds = new Set(objectValues(this.props.nodes).map(({ parentId }) => parentId));
+    const renderedEdges = this._getRenderedEdges(
+      draggedNodeIds,
+      dragOffset,
+      resized,
+      visibleNodeIds,
+    );
+    const EdgeHandleComponent: React.ComponentType<EdgeHandleComponentProps<E> & X> =
+      this.props.edgeHandleComponent ?? DefaultEdgeHandle;
+    const edgeHandleOffset = this.props.edgeHandleOffset ?? DEFAULT_EDGE_HANDLE_OFFSET;
+    const { getNodePorts } = this.props;
+    const isValidConnectionTarget = (id: string) =>
+      incompleteEdge ? this._isValidConnectionTarget(incompleteEdge, id) : undefined;
+    const PortComponent: React.ComponentType<PortComponentProps<N> & X> =
+      this.props.portComponent ?? DefaultPort;
+    const ResizeHandleComponent: React.ComponentType<ResizeHandleComponentProps<N> & X> =
+      this.props.resizeHandleComponent ?? DefaultResizeHandle;
+    const WaypointHandleComponent: React.ComponentType<WaypointHandleComponentProps<E> & X> =
+      this.props.waypointHandleComponent ?? DefaultWaypointHandle;
     const { dotSize, spacing, fill } = this._getGrid();
+    const { min: minZoom } = this._getZoomConstraints();
+    const activeItem = this._getActiveItem();
+    const edgeLayout = this._getEdgeLayout();
+    const edgeRoutes =
+      edgeLayout.pathType === PathType.ORTHOGONAL
+        ? this._getEdgeRoutes(renderedEdges, visibleNodeIds, draggedNodeIds, dragOffset, resized)
+        : undefined;
 
     return (
       <svg
         onWheel={this._onWheelContainer}
+        onContextMenu={this._onContextMenuContainer}
+        onKeyDown={this._onKeyDownContainer}
+        onDragOver={this._onDragOverContainer}
+        onDragLeave={this._onDragLeaveContainer}
+        onDrop={this._onDropContainer}
+        tabIndex={0}
+        role="application"
+        aria-label={this.props.ariaLabel}
         className={this.props.className}
         style={this.props.style}
         ref={this.root}
@@ -197,106 +663,394 @@ export class Graph<
             ref={this.background}
             className="panzoom-exclude"
             fill={this.props.grid === false ? "transparent" : "url(#grid)"}
-            // TODO: This height thing works, but it's also overkill, cause when you zoom it it gets HUGE.
-            width={`${DEFAULT_MAX_ZOOM * 100 * 2}%`}
-            height={`${DEFAULT_MAX_ZOOM * 100 * 2}%`}
-            onMouseDown={this._onMouseDownBackground}
+            // This needs to cover the viewport at the most-zoomed-out scale, plus a little extra to
+            // account for the offset applied to keep the grid pattern aligned.
+            width={`${100 / minZoom + 100}%`}
+            height={`${100 / minZoom + 100}%`}
+            onPointerDown={this._onPointerDownBackground}
             onClick={this._onClickBackground}
+            onDoubleClick={this._onDoubleClickBackground}
+            onContextMenu={this._onContextMenuBackground}
+            onPointerEnter={this._onPointerEnterBackground}
+            onPointerLeave={this._onPointerLeaveBackground}
             style={{ cursor: "move" }}
           />
-          {objectEntries(this.props.edges).map(([id, e]) => {
-            let source = this.props.nodes[e.sourceId];
-            let target = this.props.nodes[e.targetId];
-
-            // TODO: We should warn about null nodes, but probably not explode?
-            if (source == null || target == null) {
-              return;
-            }
-
-            if (dragState) {
-              if (dragState.nodeId === e.sourceId) {
-                source = {
-                  ...source,
-                  x: (dragState.last.screenX - dragState.start.screenX) / scale + source.x,
-                  y: (dragState.last.screenY - dragState.start.screenY) / scale + source.y,
-                };
-              }
-
-              if (dragState.nodeId === e.targetId) {
-                target = {
-                  ...target,
-                  x: (dragState.last.screenX - dragState.start.screenX) / scale + target.x,
-                  y: (dragState.last.screenY - dragState.start.screenY) / scale + target.y,
-                };
-              }
-            }
-
-            return (
-              <EdgeContainer
-                key={id}
-                id={id}
-                edge={e}
-                source={source}
-                target={target}
-                extraProps={this.props.extraProps}
-                contentComponent={this.props.edgeComponent as any}
-                onClick={this._onClickEdge}
-              />
-            );
-          })}
+          <g ref={this.edgeLayer}>
+            {renderedEdges.map((rendered) => {
+              const { id, edge: e, source, target, sourceId, targetId } = rendered;
+              const aria = this._getEdgeAriaAttributes(id, e);
+
+              return (
+                <EdgeContainer
+                  key={id}
+                  id={id}
+                  edge={e}
+                  source={source}
+                  target={target}
+                  sourceId={sourceId}
+                  targetId={targetId}
+                  parallelIndex={rendered.parallelIndex}
+                  parallelCount={rendered.parallelCount}
+                  getNodePorts={this.props.getNodePorts}
+                  getNodeShape={this.props.getNodeShape}
+                  pathType={edgeLayout.pathType}
+                  pathDirection={edgeLayout.pathDirection}
+                  parallelSpacing={edgeLayout.parallelSpacing}
+                  selfEdgeRadius={edgeLayout.selfEdgeRadius}
+                  route={edgeRoutes?.[id]}
+                  extraProps={this.props.extraProps}
+                  contentComponent={this.props.edgeComponent}
+                  isSelected={selection.edgeIds.has(id)}
+                  tabIndex={activeItem?.type === "edge" && activeItem.id === id ? 0 : -1}
+                  ariaRole={aria.role}
+                  ariaLabel={aria.label}
+                  ariaDescription={aria.description}
+                  onClick={this._onClickEdge}
+                  onDoubleClick={this._onDoubleClickEdge}
+                  onContextMenu={this._onContextMenuEdge}
+                  onPointerEnter={this._onPointerEnterEdge}
+                  onPointerLeave={this._onPointerLeaveEdge}
+                  onFocus={this._onFocusEdge}
+                  onKeyDown={this._onKeyDownEdge}
+                />
+              );
+            })}
+          </g>
           {incompleteEdge && this.props.incompleteEdgeComponent && (
             <g className="panzoom-exclude">
               <this.props.incompleteEdgeComponent
                 source={this.props.nodes[incompleteEdge.sourceId]}
                 sourceId={incompleteEdge.sourceId}
-                position={{
-                  x:
-                    (incompleteEdge.last.screenX - incompleteEdge.start.screenX) / scale +
-                    this.props.nodes[incompleteEdge.sourceId].x,
-                  y:
-                    (incompleteEdge.last.screenY - incompleteEdge.start.screenY) / scale +
-                    this.props.nodes[incompleteEdge.sourceId].y,
-                }}
+                sourcePort={incompleteEdge.sourcePort}
+                sourcePosition={this._getAttachmentPosition(
+                  incompleteEdge.sourceId,
+                  incompleteEdge.sourcePort,
+                )}
+                position={offsetPosition(
+                  incompleteEdge.origin,
+                  getDragOffset(incompleteEdge, incompleteEdge.last, scale, this._getPan()),
+                )}
                 target={
                   incompleteEdge.targetId ? this.props.nodes[incompleteEdge.targetId] : undefined
                 }
                 targetId={incompleteEdge.targetId}
-                {...(this.props.extraProps as any)}
+                targetPort={incompleteEdge.targetPort}
+                targetPosition={
+                  incompleteEdge.targetId != null
+                    ? this._getAttachmentPosition(
+                        incompleteEdge.targetId,
+                        incompleteEdge.targetPort,
+                      )
+                    : undefined
+                }
+                isValid={
+                  incompleteEdge.targetId != null
+                    ? this._canConnect(
+                        incompleteEdge,
+                        incompleteEdge.targetId,
+                        incompleteEdge.targetPort,
+                      )
+                    : undefined
+                }
+                reconnectingEnd={incompleteEdge.reconnect?.end}
+                {...getExtraProps(this.props.extraProps)}
               />
             </g>
           )}
-          {objectEntries(this.props.nodes).map(([id, n]) => {
-            let node = n;
-
-            if (dragState?.nodeId === id) {
-              node = {
-                ...node,
-                x: (dragState.last.screenX - dragState.start.screenX) / scale + node.x,
-                y: (dragState.last.screenY - dragState.start.screenY) / scale + node.y,
-              };
-            }
-
-            return (
-              <NodeContainer
-                key={id}
-                id={id}
-                node={node}
-                extraProps={this.props.extraProps}
-                contentComponent={this.props.nodeComponent as any}
-                onMouseDown={this._onMouseDownNode}
-                onMouseUp={this._onMouseUpNode}
-                onMouseEnter={this._onMouseEnterNode}
-                onMouseLeave={this._onMouseLeaveNode}
-                onClick={this._onClickNode}
+          <g ref={this.nodeLayer}>
+            {this._getRenderedNodeEntries(visibleNodeIds).map(([id, n]) => {
+              const node = getRenderedNode(n, id, draggedNodeIds, dragOffset, resized);
+              const aria = this._getNodeAriaAttributes(id, n);
+
+              return (
+                <NodeContainer
+                  key={id}
+                  id={id}
+                  node={node}
+                  getNodePorts={this.props.getNodePorts}
+                  portComponent={PortComponent}
+                  extraProps={this.props.extraProps}
+                  contentComponent={this.props.nodeComponent}
+                  isSelected={selection.nodeIds.has(id)}
+                  isValidConnectionTarget={isValidConnectionTarget(id)}
+                  isCollapsed={groupIds.has(id) ? collapsedNodeIds.has(id) : undefined}
+                  tabIndex={activeItem?.type === "node" && activeItem.id === id ? 0 : -1}
+                  ariaRole={aria.role}
+                  ariaLabel={aria.label}
+                  ariaDescription={aria.description}
+                  onPointerDown={this._onPointerDownNode}
+                  onClick={this._onClickNode}
+                  onDoubleClick={this._onDoubleClickNode}
+                  onContextMenu={this._onContextMenuNode}
+                  onPointerEnter={this._onPointerEnterNode}
+                  onPointerLeave={this._onPointerLeaveNode}
+                  onFocus={this._onFocusNode}
+                  onKeyDown={this._onKeyDownNode}
+                />
+              );
+            })}
+          </g>
+          {this.props.resizable && (
+            <g
+              className="panzoom-exclude"
+              style={incompleteEdge ? { pointerEvents: "none" } : undefined}
+            >
+              {Array.from(selection.nodeIds).map((id) => {
+                let node = this.props.nodes[id];
+                if (
+                  node?.width == null ||
+                  node.height == null ||
+                  draggedNodeIds.has(id) ||
+                  visibleNodeIds.get(id) !== id
+                ) {
+                  return null;
+                } else if (resized?.id === id) {
+                  node = getResizedNode(resized);
+                }
+                const rect = getNodeRect(node);
+                return objectValues(ResizeHandle).map((handle) => (
+                  <g
+                    key={`${id}-${handle}`}
+                    data-id={id}
+                    data-handle={handle}
+                    onPointerDown={this._onPointerDownResizeHandle}
+                  >
+                    <ResizeHandleComponent
+                      node={node}
+                      nodeId={id}
+                      handle={handle}
+                      position={getResizeHandlePosition(rect, handle)}
+                      {...getExtraProps(this.props.extraProps)}
+                    />
+                  </g>
+                ));
+              })}
+            </g>
+          )}
+          {this.props.onReconnectEdgeEnd && (
+            <g
+              className="panzoom-exclude"
+              // Don't get in the way of hit-testing for the node under an incomplete edge.
+              style={incompleteEdge ? { pointerEvents: "none" } : undefined}
+            >
+              {renderedEdges
+                .filter(({ id }) => selection.edgeIds.has(id))
+                .map((rendered) =>
+                  [EdgeEnd.SOURCE, EdgeEnd.TARGET].map((end) => (
+                    <g
+                      key={`${rendered.id}-${end}`}
+                      data-id={rendered.id}
+                      data-end={end}
+                      onPointerDown={this._onPointerDownEdgeHandle}
+                    >
+                      <EdgeHandleComponent
+                        edge={rendered.edge}
+                        edgeId={rendered.id}
+                        end={end}
+                        position={getEdgeHandlePosition(
+                          ...getEdgeAttachmentPositions(rendered, getNodePorts),
+                          rendered.edge.waypoints ?? [],
+                          end,
+                          edgeHandleOffset,
+                        )}
+                        {...getExtraProps(this.props.extraProps)}
+                      />
+                    </g>
+                  )),
+                )}
+            </g>
+          )}
+          {this.props.onEdgeWaypointsChange && (
+            <g
+              className="panzoom-exclude"
+              style={incompleteEdge ? { pointerEvents: "none" } : undefined}
+            >
+              {renderedEdges
+                .filter(
+                  ({ id, sourceId, targetId }) =>
+                    selection.edgeIds.has(id) && sourceId !== targetId,
+                )
+                .map((rendered) =>
+                  getWaypointHandles(
+                    ...getEdgeAttachmentPositions(rendered, getNodePorts),
+                    rendered.edge.waypoints ?? [],
+                  ).map(({ index, isMidpoint, position }) => (
+                    <g
+                      key={`${rendered.id}-${isMidpoint ? "midpoint" : "waypoint"}-${index}`}
+                      data-id={rendered.id}
+                      data-index={index}
+                      data-midpoint={isMidpoint}
+                      onPointerDown={this._onPointerDownWaypointHandle}
+                      onDoubleClick={this._onDoubleClickWaypointHandle}
+                    >
+                      <WaypointHandleComponent
+                        edge={rendered.edge}
+                        edgeId={rendered.id}
+                        index={index}
+                        isMidpoint={isMidpoint}
+                        position={position}
+                        {...getExtraProps(this.props.extraProps)}
+                      />
+                    </g>
+                  )),
+                )}
+            </g>
+          )}
+          {snappedDrag && snappedDrag.guides.length > 0 && (
+            <g className="panzoom-exclude" style={{ pointerEvents: "none" }}>
+              {snappedDrag.guides.map(({ from, to }) =>
+                this.props.guideComponent ? (
+                  <this.props.guideComponent
+                    key={`${from.x},${from.y}`}
+                    from={from}
+                    to={to}
+                    {...getExtraProps(this.props.extraProps)}
+                  />
+                ) : (
+                  <line
+                    key={`${from.x},${from.y}`}
+                    x1={from.x}
+                    y1={from.y}
+                    x2={to.x}
+                    y2={to.y}
+                    stroke="magenta"
+                    strokeWidth={1}
+                    vectorEffect="non-scaling-stroke"
+                  />
+                ),
+              )}
+            </g>
+          )}
+          {dropPreview && this.props.dropPreviewComponent && (
+            <g className="panzoom-exclude" style={{ pointerEvents: "none" }}>
+              <this.props.dropPreviewComponent
+                {...dropPreview}
+                {...getExtraProps(this.props.extraProps)}
               />
-            );
-          })}
+            </g>
+          )}
+          {marquee && (
+            <g className="panzoom-exclude" style={{ pointerEvents: "none" }}>
+              {this.props.marqueeComponent ? (
+                <this.props.marqueeComponent
+                  rect={getMarqueeRect(marquee)}
+                  {...getExtraProps(this.props.extraProps)}
+                />
+              ) : (
+                <rect
+                  {...getMarqueeRect(marquee)}
+                  fill="rgba(0, 0, 255, 0.1)"
+                  stroke="blue"
+                  strokeWidth={1}
+                  vectorEffect="non-scaling-stroke"
+                />
+              )}
+            </g>
+          )}
           {this.props.children}
         </g>
       </svg>
     );
   }
 
+  getViewport(): Viewport {
+    const transform = this.transform;
+    assertNonNull(transform);
+    const zoom = transform.getScale();
+    const pan = this._getPan();
+    const { width, height } = this._getViewportSize();
+    return {
+      pan,
+      zoom,
+      bounds: {
+        x: pan.x - width / 2 / zoom,
+        y: pan.y - height / 2 / zoom,
+        width: width / zoom,
+        height: height / zoom,
+      },
+    };
+  }
+
+  // Registers a listener for any change to the viewport, regardless of its source. Returns a
+  // function that unregisters it.
+  addViewportListener(listener: (viewport: Viewport) => void) {
+    this.viewportListeners.add(listener);
+    return () => {
+      this.viewportListeners.delete(listener);
+    };
+  }
+
+  // Converts client coordinates (such as MouseEvent's clientX/clientY) into world space.
+  screenToWorld(position: Position): Position {
+    const { current: root } = this.root;
+    assertNonNull(root);
+    const transform = this.transform;
+    assertNonNull(transform);
+
+    const scale = transform.getScale();
+    const { x, y } = transform.getPan();
+    const rect = root.getBoundingClientRect();
+
+    return {
+      x: (position.x - rect.left - root.clientLeft) / scale - x,
+      y: (position.y - rect.top - root.clientTop) / scale - y,
+    };
+  }
+
+  // Converts world space into client coordinates. This is the inverse of screenToWorld.
+  worldToScreen(position: Position): Position {
+    const { current: root } = this.root;
+    assertNonNull(root);
+    const transform = this.transform;
+    assertNonNull(transform);
+
+    const scale = transform.getScale();
+    const { x, y } = transform.getPan();
+    const rect = root.getBoundingClientRect();
+
+    return {
+      x: (position.x + x) * scale + rect.left + root.clientLeft,
+      y: (position.y + y) * scale + rect.top + root.clientTop,
+    };
+  }
+
+  centerOn(position: Position, animation?: Partial<ViewportAnimation> | boolean) {
+    this._animateViewport(position, this.transform?.getScale() ?? DEFAULT_ZOOM, animation);
+  }
+
+  fitToView(padding = DEFAULT_FIT_PADDING, animation?: Partial<ViewportAnimation> | boolean) {
+    this.zoomToNodes(Object.keys(this.props.nodes), padding, animation);
+  }
+
+  // Pans and zooms such that the given nodes fill the viewport, less the padding (in screen pixels)
+  // on each side.
+  zoomToNodes(
+    ids: string[],
+    padding = DEFAULT_FIT_PADDING,
+    animation?: Partial<ViewportAnimation> | boolean,
+  ) {
+    const bounds = this._getNodeBounds(ids);
+    if (bounds == null) {
+      return;
+    }
+
+    const { width, height } = this._getViewportSize();
+    const { min, max } = this._getZoomConstraints();
+    // Zero-size bounds (e.g. a single unrendered node) don't constrain the zoom at all.
+    const fit = (available: number, size: number) =>
+      size > 0 ? Math.max(available - 2 * padding, 0) / size : Infinity;
+    const zoom = Math.min(
+      Math.max(Math.min(fit(width, bounds.width), fit(height, bounds.height)), min),
+      max,
+    );
+
+    this._animateViewport(
+      { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 },
+      zoom,
+      animation,
+    );
+  }
+
   private _getGrid(): Required<Grid> {
     const dotSize =
       (typeof this.props.grid !== "boolean" ? this.props.grid?.dotSize : undefined) ??
@@ -310,20 +1064,300 @@ export class Graph<
     return { dotSize, spacing, fill };
   }
 
+  private _getSnap(): Snap | undefined {
+    const { snap } = this.props;
+    if (snap == null || snap === false) {
+      return undefined;
+    } else {
+      return {
+        gridSize: (snap === true ? undefined : snap.gridSize) ?? this._getGrid().spacing,
+        guides: (snap === true ? undefined : snap.guides) ?? true,
+        guideThreshold:
+          (snap === true ? undefined : snap.guideThreshold) ?? DEFAULT_SNAP_GUIDE_THRESHOLD,
+      };
+    }
+  }
+
+  private _getResize(): Resize | undefined {
+    const { resizable } = this.props;
+    if (resizable == null || resizable === false) {
+      return undefined;
+    } else {
+      const settings = resizable === true ? undefined : resizable;
+      return {
+        minWidth: settings?.minWidth ?? DEFAULT_RESIZE_MIN_SIZE,
+        minHeight: settings?.minHeight ?? DEFAULT_RESIZE_MIN_SIZE,
+        maxWidth: settings?.maxWidth ?? Infinity,
+        maxHeight: settings?.maxHeight ?? Infinity,
+        lockAspectRatio: settings?.lockAspectRatio ?? false,
+      };
+    }
+  }
+
+  private _getEdgeLayout(): EdgeLayout {
+    const { edgeLayout } = this.props;
+    return {
+      pathType: edgeLayout?.pathType ?? PathType.STRAIGHT,
+      pathDirection: edgeLayout?.pathDirection ?? PathDirection.AUTO,
+      parallelSpacing: edgeLayout?.parallelSpacing ?? DEFAULT_PARALLEL_EDGE_SPACING,
+      selfEdgeRadius: edgeLayout?.selfEdgeRadius ?? DEFAULT_SELF_EDGE_RADIUS,
+      routingMargin: edgeLayout?.routingMargin ?? DEFAULT_ROUTING_MARGIN,
+    };
+  }
+
+  private _getZoomConstraints(): ZoomConstraints {
+    const { zoomConstraints } = this.props;
+    return {
+      min: zoomConstraints?.min ?? DEFAULT_MIN_ZOOM,
+      max: zoomConstraints?.max ?? DEFAULT_MAX_ZOOM,
+      speed: zoomConstraints?.speed ?? DEFAULT_ZOOM_SPEED,
+    };
+  }
+
+  private _getPanConstraints(): PanConstraints {
+    const { panConstraints } = this.props;
+    if (panConstraints === "content") {
+      const rects = objectValues(this.props.nodes).map(getNodeRect);
+      if (rects.length === 0) {
+        return UNCONSTRAINED_PAN;
+      } else {
+        return {
+          xMin: Math.min(...rects.map((r) => r.x)),
+          xMax: Math.max(...rects.map((r) => r.x + r.width)),
+          yMin: Math.min(...rects.map((r) => r.y)),
+          yMax: Math.max(...rects.map((r) => r.y + r.height)),
+        };
+      }
+    } else {
+      return {
+        xMin: panConstraints?.xMin ?? UNCONSTRAINED_PAN.xMin,
+        xMax: panConstraints?.xMax ?? UNCONSTRAINED_PAN.xMax,
+        yMin: panConstraints?.yMin ?? UNCONSTRAINED_PAN.yMin,
+        yMax: panConstraints?.yMax ?? UNCONSTRAINED_PAN.yMax,
+      };
+    }
+  }
+
+  private _constrainPan(pan: Pan): Pan {
+    const { xMin, xMax, yMin, yMax } = this._getPanConstraints();
+    return {
+      x: Math.min(Math.max(pan.x, xMin), xMax),
+      y: Math.min(Math.max(pan.y, yMin), yMax),
+    };
+  }
+
   private _toWorldSpacePosition(e: { clientX: number; clientY: number }): Position {
+    return this.screenToWorld({ x: e.clientX, y: e.clientY });
+  }
+
+  private _toSnappedWorldSpacePosition(e: { clientX: number; clientY: number }): Position {
+    const position = this._toWorldSpacePosition(e);
+    const snap = this._getSnap();
+    return snap ? snapToGrid(position, snap.gridSize) : position;
+  }
+
+  // Returns the union of the rendered bounds of the given nodes, in world space. Nodes that haven't
+  // been rendered (yet) only contribute their position.
+  private _getNodeBounds(ids: string[]): Rect | undefined {
+    let bounds: { xMin: number; xMax: number; yMin: number; yMax: number } | undefined;
+    this._getNodeRects(ids).forEach(({ x, y, width, height }) => {
+      bounds = {
+        xMin: Math.min(x, bounds?.xMin ?? Infinity),
+        xMax: Math.max(x + width, bounds?.xMax ?? -Infinity),
+        yMin: Math.min(y, bounds?.yMin ?? Infinity),
+        yMax: Math.max(y + height, bounds?.yMax ?? -Infinity),
+      };
+    });
+
+    return bounds
+      ? {
+          x: bounds.xMin,
+          y: bounds.yMin,
+          width: bounds.xMax - bounds.xMin,
+          height: bounds.yMax - bounds.yMin,
+        }
+      : undefined;
+  }
+
+  // The rendered bounds of each of the given nodes, in world space, keyed by ID. As with
+  // _getNodeBounds, unrendered nodes are treated as points.
+  private _getNodeRects(ids: string[]): Map<string, Rect> {
+    const elements = new Map<string, SVGGElement>();
+    Array.from(this.nodeLayer.current?.children ?? []).forEach((e) => {
+      if (e instanceof SVGGElement && e.dataset.id != null) {
+        elements.set(e.dataset.id, e);
+      }
+    });
+
+    const rects = new Map<string, Rect>();
+    ids.forEach((id) => {
+      const node = this.props.nodes[id];
+      if (node == null) {
+        return;
+      }
+      const { x, y, width, height } = elements.get(id)?.getBBox() ?? {
+        ...node,
+        width: 0,
+        height: 0,
+      };
+      rects.set(id, { x, y, width, height });
+    });
+    return rects;
+  }
+
+  private _getViewportSize() {
     const { current: root } = this.root;
     assertNonNull(root);
+    const { width, height } = root.getBoundingClientRect();
+    return { width, height };
+  }
+
+  private _getPan(): Pan {
     const transform = this.transform;
     assertNonNull(transform);
-
     const scale = transform.getScale();
     const { x, y } = transform.getPan();
-    const rect = root.getBoundingClientRect();
-
+    const { width, height } = this._getViewportSize();
     return {
-      x: (e.clientX - rect.left - root.clientLeft) / scale - x,
-      y: (e.clientY - rect.top - root.clientTop) / scale - y,
+      x: width / 2 / scale - x,
+      y: height / 2 / scale - y,
+    };
+  }
+
+  private _setViewport(pan: Pan, zoom: number) {
+    const transform = this.transform;
+    assertNonNull(transform);
+    // Silence the zoom so that listeners only hear about the final, consistent pan/zoom pair.
+    transform.zoom(zoom, { animate: false, force: true, silent: true });
+    this._setPan(pan);
+  }
+
+  private _getViewportAnimation(
+    animation: Partial<ViewportAnimation> | boolean | undefined = this.props.viewportAnimation,
+  ): ViewportAnimation | undefined {
+    if (animation == null || animation === false) {
+      return undefined;
+    } else {
+      return {
+        duration:
+          (animation === true ? undefined : animation.duration) ??
+          DEFAULT_VIEWPORT_ANIMATION_DURATION,
+        easing:
+          (animation === true ? undefined : animation.easing) ?? DEFAULT_VIEWPORT_ANIMATION_EASING,
+      };
+    }
+  }
+
+  private _animateViewport(
+    pan: Pan,
+    zoom: number,
+    animation?: Partial<ViewportAnimation> | boolean,
+  ) {
+    this._cancelViewportAnimation();
+
+    const transform = this.transform;
+    assertNonNull(transform);
+    const settings = this._getViewportAnimation(animation);
+    if (settings == null || settings.duration <= 0) {
+      this._setViewport(pan, zoom);
+      return;
+    }
+
+    const { min, max } = this._getZoomConstraints();
+    const fromPan = this._getPan();
+    const fromZoom = transform.getScale();
+    const toPan = this._constrainPan(pan);
+    const toZoom = Math.min(Math.max(zoom, min), max);
+    const start = performance.now();
+
+    const step = (now: number) => {
+      const progress = Math.min((now - start) / settings.duration, 1);
+      const t = settings.easing(progress);
+      this._setViewport(
+        {
+          x: fromPan.x + (toPan.x - fromPan.x) * t,
+          y: fromPan.y + (toPan.y - fromPan.y) * t,
+        },
+        // Interpolate zoom geometrically so that zooming in and out feel equally fast.
+        fromZoom * Math.pow(toZoom / fromZoom, t),
+      );
+      this.viewportAnimationFrame = progress < 1 ? requestAnimationFrame(step) : undefined;
     };
+
+    this.viewportAnimationFrame = requestAnimationFrame(step);
+  }
+
+  private _cancelViewportAnimation() {
+    if (this.viewportAnimationFrame != null) {
+      cancelAnimationFrame(this.viewportAnimationFrame);
+      this.viewportAnimationFrame = undefined;
+    }
+  }
+
+  private _setPan(pan: Pan) {
+    const transform = this.transform;
+    assertNonNull(transform);
+    const scale = transform.getScale();
+    const { width, height } = this._getViewportSize();
+    const { x, y } = this._constrainPan(pan);
+    this.isSettingPan = true;
+    try {
+      transform.pan(width / 2 / scale - x, height / 2 / scale - y, {
+        animate: false,
+        force: true,
+      });
+    } finally {
+      this.isSettingPan = false;
+    }
+  }
+
+  private _syncControlledViewport() {
+    const { pan, zoom } = this.props;
+    if (
+      (pan != null && (this.lastPan == null || !isPanEqual(pan, this.lastPan))) ||
+      (zoom != null && (this.lastZoom == null || !isZoomEqual(zoom, this.lastZoom)))
+    ) {
+      const nextPan = pan ?? this._getPan();
+      const nextZoom = zoom ?? this.transform?.getScale() ?? DEFAULT_ZOOM;
+      this.lastPan = nextPan;
+      this.lastZoom = nextZoom;
+      this._animateViewport(nextPan, nextZoom);
+    }
+  }
+
+  private _onViewportChange = (scale: number) => {
+    const pan = this._getPan();
+    if (this.lastPan == null || !isPanEqual(pan, this.lastPan)) {
+      this.lastPan = pan;
+      this.props.onPan?.(pan);
+    }
+    if (this.lastZoom == null || !isZoomEqual(scale, this.lastZoom)) {
+      this.lastZoom = scale;
+      this.props.onZoom?.(scale);
+    }
+    // Unlike the callbacks above, these are notified of changes made by controlled props too.
+    if (this.viewportListeners.size > 0) {
+      const viewport = this.getViewport();
+      this.viewportListeners.forEach((listener) => {
+        listener(viewport);
+      });
+    }
+  };
+
+  private _getLongPress(): LongPress | undefined {
+    const { longPressCreateEdge } = this.props;
+    if (longPressCreateEdge === false) {
+      return undefined;
+    } else {
+      return {
+        delay:
+          (longPressCreateEdge === true ? undefined : longPressCreateEdge?.delay) ??
+          DEFAULT_LONG_PRESS_DELAY,
+        tolerance:
+          (longPressCreateEdge === true ? undefined : longPressCreateEdge?.tolerance) ??
+          DEFAULT_LONG_PRESS_TOLERANCE,
+      };
+    }
   }
 
   private _isWithinFudgeFactor(p1: ScreenPosition, p2: ScreenPosition) {
@@ -333,202 +1367,1360 @@ export class Graph<
     );
   }
 
-  private _onMouseDownBackground = (e: React.MouseEvent<SVGElement>) => {
+  private _onPointerDownBackground = (e: React.PointerEvent<SVGElement>) => {
+    if (this.pan || this.state.marquee) {
+      // Only one pointer at a time may pan. Pinching is handled separately by Panzoom.
+      return;
+    }
     const { screenX, screenY } = e;
+    if (this.props.shouldStartMarquee?.(e)) {
+      const position = this._toWorldSpacePosition(e);
+      e.currentTarget.setPointerCapture(e.pointerId);
+      this.setState({
+        marquee: {
+          pointerId: e.pointerId,
+          mode: this.props.getMarqueeMode?.(e) ?? getDefaultMarqueeMode(e),
+          start: { screenX, screenY },
+          startPosition: position,
+          lastPosition: position,
+        },
+      });
+      return;
+    }
+    const panning = this.props.shouldStartPan?.(e) ?? false;
+    if (panning) {
+      this._cancelViewportAnimation();
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
     this.pan = {
-      panning: this.props.shouldStartPan?.(e) ?? false,
+      pointerId: e.pointerId,
+      panning,
       start: { screenX, screenY },
       last: { screenX, screenY },
     };
   };
 
   private _onClickBackground = (e: React.MouseEvent) => {
+    this.didSkipLastClick = this.shouldSkipNextBackgroundClick;
     if (this.shouldSkipNextBackgroundClick) {
       this.shouldSkipNextBackgroundClick = false;
-    } else {
+    } else if (!(e.detail > 1 && this.props.onDoubleClickBackground)) {
       this.props.onClickBackground?.(e, this._toWorldSpacePosition(e));
     }
   };
 
-  private _onMouseDownNode = (e: React.MouseEvent<SVGGElement>) => {
+  private _onDoubleClickBackground = (e: React.MouseEvent) => {
+    if (!this.didSkipLastClick) {
+      this.props.onDoubleClickBackground?.(e, this._toWorldSpacePosition(e));
+    }
+  };
+
+  private _onContextMenuBackground = (e: React.MouseEvent) => {
+    if (!this._isContextMenuSuppressed()) {
+      this.props.onContextMenuBackground?.(e, this._toWorldSpacePosition(e));
+    }
+  };
+
+  private _onPointerEnterBackground = (e: React.PointerEvent) => {
+    this.props.onHoverStartBackground?.(e, this._toWorldSpacePosition(e));
+  };
+
+  private _onPointerLeaveBackground = (e: React.PointerEvent) => {
+    this.props.onHoverEndBackground?.(e, this._toWorldSpacePosition(e));
+  };
+
+  private _onPointerDownNode = (e: React.PointerEvent<SVGGElement>) => {
+    // Browsers don't always follow a captured pointerup with a click, so a flag that was never
+    // consumed mustn't swallow this gesture's.
+    this.shouldSkipNextNodeClick = undefined;
+    if (this.state.incompleteEdge || this.state.dragState || this.longPress) {
+      return;
+    }
     const { id } = e.currentTarget.dataset;
     assertNonNull(id);
     const node = this.props.nodes[id];
-    const { screenX, screenY } = e;
+    const { screenX, screenY, pointerId } = e;
     const details: NodeEventDetails<N> = { node, id, position: this._toWorldSpacePosition(e) };
-    if (this.props.shouldStartCreateEdge?.(e, details)) {
-      this.setState({
-        incompleteEdge: {
-          sourceId: id,
-          // Note that we don't set target here; if you want to create a self-edge you have to leave
-          // and come back. This is... fine. If this behavior ever changes, make sure to change the
-          // semantics of didLeaveOriginalNode as well. That value is used to differentiate between
-          // self-edge creations and clicks without moving, and if you can self-edge create without
-          // moving, it'll have to change to compensate.
-          start: { screenX, screenY },
-          last: { screenX, screenY },
-          didLeaveOriginalNode: false,
-        },
-      });
-    } else if (this.props.shouldStartNodeDrag?.(e.nativeEvent, details)) {
-      this.setState({
-        dragState: {
+    e.currentTarget.setPointerCapture(pointerId);
+    const port = e.target instanceof Element ? e.target.closest("[data-port]") : null;
+    if (port instanceof SVGGElement && port.parentNode === e.currentTarget) {
+      this._startCreateEdge(id, port.dataset.port, pointerId, { screenX, screenY });
+    } else if (this.props.shouldStartCreateEdge?.(e, details)) {
+      this._startCreateEdge(id, undefined, pointerId, { screenX, screenY });
+    } else {
+      if (this.props.shouldStartNodeDrag?.(e.nativeEvent, details)) {
+        this.setState({
+          dragState: {
+            pointerId,
+            nodeId: id,
+            nodeIds: this._getMovedNodeIds(id),
+            start: { screenX, screenY },
+            last: { screenX, screenY },
+            startPan: this._getPan(),
+            guideTargets: this._getSnap()?.guides ? this._getGuideTargets(id) : undefined,
+          },
+        });
+      }
+
+      const longPress = this._getLongPress();
+      if (longPress && e.pointerType !== "mouse") {
+        this.longPress = {
+          pointerId,
           nodeId: id,
           start: { screenX, screenY },
           last: { screenX, screenY },
-        },
-      });
+          timeout: window.setTimeout(this._onLongPressNode, longPress.delay),
+        };
+      }
     }
   };
 
-  private _onMouseUpNode = (e: React.MouseEvent<SVGGElement>) => {
-    const { incompleteEdge } = this.state;
-    if (incompleteEdge) {
-      const { id } = e.currentTarget.dataset;
-      assertNonNull(id);
-      if (
-        incompleteEdge.didLeaveOriginalNode ||
-        !this._isWithinFudgeFactor(e, incompleteEdge.start)
-      ) {
-        this.shouldSkipNextNodeClick = id;
-        this.props.onCreateEdgeEnd?.(e, {
-          source: this.props.nodes[incompleteEdge.sourceId],
-          sourceId: incompleteEdge.sourceId,
-          target: this.props.nodes[id],
-          targetId: id,
-        });
-      }
-      this.setState({ incompleteEdge: undefined });
+  private _onLongPressNode = () => {
+    const { longPress } = this;
+    assertNonNull(longPress);
+    this.longPress = undefined;
+    // The long press supersedes any drag that may have started, but since the pointer can't have
+    // moved much, there's no point in treating the drag as having happened.
+    this.setState({ dragState: undefined });
+    this._startCreateEdge(longPress.nodeId, undefined, longPress.pointerId, longPress.last);
+  };
+
+  private _cancelLongPress() {
+    if (this.longPress) {
+      window.clearTimeout(this.longPress.timeout);
+      this.longPress = undefined;
     }
+  }
+
+  private _startCreateEdge(
+    sourceId: string,
+    sourcePort: string | undefined,
+    pointerId: number,
+    position: ScreenPosition,
+  ) {
+    this.setState({
+      incompleteEdge: {
+        pointerId,
+        sourceId,
+        sourcePort,
+        origin: this._getAttachmentPosition(sourceId, sourcePort),
+        // Note that we don't set target here; if you want to create a self-edge you have to leave
+        // and come back. This is... fine. If this behavior ever changes, make sure to change the
+        // semantics of didLeaveOriginalNode as well. That value is used to differentiate between
+        // self-edge creations and clicks without moving, and if you can self-edge create without
+        // moving, it'll have to change to compensate.
+        start: position,
+        last: position,
+        startPan: this._getPan(),
+        didLeaveOriginalNode: false,
+      },
+    });
+  }
+
+  // Whether the incomplete edge could be dropped on the given node and port.
+  private _canConnect(
+    incompleteEdge: EdgeCreateState,
+    nodeId: string,
+    port: string | undefined,
+  ): boolean {
+    if (!this.props.canConnect) {
+      return true;
+    }
+    const fixed = { id: incompleteEdge.sourceId, port: incompleteEdge.sourcePort };
+    const moving = { id: nodeId, port };
+    const [source, target] =
+      incompleteEdge.reconnect?.end === EdgeEnd.SOURCE ? [moving, fixed] : [fixed, moving];
+    return this.props.canConnect({
+      source: this.props.nodes[source.id],
+      sourceId: source.id,
+      sourcePort: source.port,
+      target: this.props.nodes[target.id],
+      targetId: target.id,
+      targetPort: target.port,
+      edgeId: incompleteEdge.reconnect?.edgeId,
+    });
+  }
+
+  // Nodes with ports are valid targets if any of their ports are.
+  private _isValidConnectionTarget(incompleteEdge: EdgeCreateState, nodeId: string): boolean {
+    const ports = Object.keys(this._getPorts(nodeId));
+    return ports.length > 0
+      ? ports.some((port) => this._canConnect(incompleteEdge, nodeId, port))
+      : this._canConnect(incompleteEdge, nodeId, undefined);
+  }
+
+  private _onPointerDownEdgeHandle = (e: React.PointerEvent<SVGGElement>) => {
+    if (this.state.incompleteEdge || this.state.dragState || this.longPress) {
+      return;
+    }
+    const { id, end } = e.currentTarget.dataset;
+    assertNonNull(id);
+    const edge = this.props.edges[id];
+    const { screenX, screenY, pointerId } = e;
+    e.currentTarget.setPointerCapture(pointerId);
+    this.setState({
+      incompleteEdge: {
+        pointerId,
+        sourceId: end === EdgeEnd.SOURCE ? edge.targetId : edge.sourceId,
+        sourcePort: end === EdgeEnd.SOURCE ? edge.targetPort : edge.sourcePort,
+        start: { screenX, screenY },
+        last: { screenX, screenY },
+        startPan: this._getPan(),
+        origin: this._toWorldSpacePosition(e),
+        // The pointer starts on the handle, not the node, so any node it's over is a target.
+        didLeaveOriginalNode: true,
+        reconnect: { edgeId: id, end: end === EdgeEnd.SOURCE ? EdgeEnd.SOURCE : EdgeEnd.TARGET },
+      },
+    });
+  };
+
+  private _onPointerDownResizeHandle = (e: React.PointerEvent<SVGGElement>) => {
+    if (this.state.resizeState || this.state.dragState || this.state.incompleteEdge) {
+      return;
+    }
+    const { id, handle } = e.currentTarget.dataset;
+    assertNonNull(id);
+    assertNonNull(handle);
+    const node = this.props.nodes[id];
+    if (node?.width == null || node.height == null) {
+      return;
+    }
+    const { screenX, screenY, pointerId } = e;
+    e.currentTarget.setPointerCapture(pointerId);
+    this.setState({
+      resizeState: {
+        pointerId,
+        nodeId: id,
+        handle: handle as ResizeHandle,
+        start: { screenX, screenY },
+        last: { screenX, screenY },
+        startPan: this._getPan(),
+        startRect: getNodeRect(node),
+      },
+    });
   };
 
+  private _onPointerDownWaypointHandle = (e: React.PointerEvent<SVGGElement>) => {
+    const { waypointDrag, dragState, resizeState, incompleteEdge } = this.state;
+    if (waypointDrag || dragState || resizeState || incompleteEdge) {
+      return;
+    }
+    const { id, index, midpoint } = e.currentTarget.dataset;
+    assertNonNull(id);
+    assertNonNull(index);
+    const isMidpoint = midpoint === "true";
+    const waypoint = this.props.edges[id].waypoints?.[Number(index)];
+    const { screenX, screenY, pointerId } = e;
+    e.currentTarget.setPointerCapture(pointerId);
+    this.setState({
+      waypointDrag: {
+        pointerId,
+        edgeId: id,
+        index: Number(index),
+        isMidpoint,
+        start: { screenX, screenY },
+        last: { screenX, screenY },
+        startPan: this._getPan(),
+        origin: !isMidpoint && waypoint ? waypoint : this._toWorldSpacePosition(e),
+      },
+    });
+  };
+
+  private _onDoubleClickWaypointHandle = (e: React.MouseEvent<SVGGElement>) => {
+    const { id, index, midpoint } = e.currentTarget.dataset;
+    assertNonNull(id);
+    assertNonNull(index);
+    const edge = this.props.edges[id];
+    if (midpoint !== "true" && edge.waypoints != null) {
+      this.props.onEdgeWaypointsChange?.(e.nativeEvent, {
+        edge,
+        id,
+        waypoints: edge.waypoints.filter((_, i) => i !== Number(index)),
+      });
+    }
+  };
+
+  private _getDraggedWaypoints(waypointDrag: WaypointDragState, position: ScreenPosition) {
+    const { edgeId, index, isMidpoint, origin } = waypointDrag;
+    const scale = this.transform?.getScale() ?? 1;
+    const waypoint = offsetPosition(
+      origin,
+      getDragOffset(waypointDrag, position, scale, this._getPan()),
+    );
+    const waypoints = [...(this.props.edges[edgeId]?.waypoints ?? [])];
+    waypoints.splice(index, isMidpoint ? 0 : 1, waypoint);
+    return waypoints;
+  }
+
   private _onClickNode = (e: React.MouseEvent<SVGGElement>) => {
     const { id } = e.currentTarget.dataset;
     assertNonNull(id);
-    if (this.shouldSkipNextNodeClick != null) {
-      assertEqual(this.shouldSkipNextNodeClick, id);
+    this.didSkipLastClick = this.shouldSkipNextNodeClick === id;
+    if (this.shouldSkipNextNodeClick === id) {
       this.shouldSkipNextNodeClick = undefined;
-    } else {
-      this.props.onClickNode?.(e, {
-        node: this.props.nodes[id],
+    } else if (!(e.detail > 1 && this.props.onDoubleClickNode)) {
+      this.props.onClickNode?.(e, this._getNodeEventDetails(e));
+    }
+  };
+
+  private _onDoubleClickNode = (e: React.MouseEvent<SVGGElement>) => {
+    if (!this.didSkipLastClick) {
+      this.props.onDoubleClickNode?.(e, this._getNodeEventDetails(e));
+    }
+  };
+
+  private _onContextMenuNode = (e: React.MouseEvent<SVGGElement>) => {
+    if (!this._isContextMenuSuppressed()) {
+      this.props.onContextMenuNode?.(e, this._getNodeEventDetails(e));
+    }
+  };
+
+  private _onPointerEnterNode = (e: React.PointerEvent<SVGGElement>) => {
+    this.props.onHoverStartNode?.(e, this._getNodeEventDetails(e));
+  };
+
+  private _onPointerLeaveNode = (e: React.PointerEvent<SVGGElement>) => {
+    this.props.onHoverEndNode?.(e, this._getNodeEventDetails(e));
+  };
+
+  // For events on node containers.
+  private _getNodeEventDetails(e: React.MouseEvent<SVGGElement>): NodeEventDetails<N> {
+    const { id } = e.currentTarget.dataset;
+    assertNonNull(id);
+    return { node: this.props.nodes[id], id, position: this._toWorldSpacePosition(e) };
+  }
+
+  // The port under the pointer or, failing that, the nearest port on the node, if it has any.
+  private _getPortAtPoint(
+    e: { clientX: number; clientY: number },
+    nodeId: string,
+  ): string | undefined {
+    const element = document.elementFromPoint(e.clientX, e.clientY)?.closest("[data-port]");
+    if (
+      element instanceof SVGGElement &&
+      element.parentNode instanceof SVGGElement &&
+      element.parentNode.dataset.id === nodeId
+    ) {
+      return element.dataset.port;
+    }
+
+    const { x, y } = this._toWorldSpacePosition(e);
+    let nearest: { port: string; distance: number } | undefined;
+    Object.keys(this._getPorts(nodeId)).forEach((port) => {
+      const position = this._getAttachmentPosition(nodeId, port);
+      const distance = Math.hypot(position.x - x, position.y - y);
+      if (nearest == null || distance < nearest.distance) {
+        nearest = { port, distance };
+      }
+    });
+    return nearest?.port;
+  }
+
+  private _getPorts(id: string): Record<string, Position> {
+    return this.props.getNodePorts?.(this.props.nodes[id], id) ?? {};
+  }
+
+  private _getAttachmentPosition(id: string, port: string | undefined): Position {
+    return getAttachmentPosition(this.props.nodes[id], id, port, this.props.getNodePorts);
+  }
+
+  // Since we capture the pointer for the duration of any gesture (and touches are implicitly
+  // captured anyway), other nodes never receive enter/leave events, so hit-test manually.
+  private _getNodeIdAtPoint(e: { clientX: number; clientY: number }): string | undefined {
+    const { current: nodeLayer } = this.nodeLayer;
+    if (nodeLayer == null) {
+      return undefined;
+    }
+    let element = document.elementFromPoint(e.clientX, e.clientY);
+    while (element != null && element.parentNode !== nodeLayer) {
+      element = element.parentElement;
+    }
+    return element instanceof SVGGElement ? element.dataset.id : undefined;
+  }
+
+  private _onClickEdge = (e: React.MouseEvent<SVGGElement>) => {
+    // Edges can't be dragged, so there's never a click to skip.
+    this.didSkipLastClick = false;
+    if (this.props.onClickEdge && !(e.detail > 1 && this.props.onDoubleClickEdge)) {
+      this.props.onClickEdge(e, this._getEdgeEventDetails(e));
+    }
+  };
+
+  private _onDoubleClickEdge = (e: React.MouseEvent<SVGGElement>) => {
+    this.props.onDoubleClickEdge?.(e, this._getEdgeEventDetails(e));
+  };
+
+  private _onContextMenuEdge = (e: React.MouseEvent<SVGGElement>) => {
+    if (!this._isContextMenuSuppressed()) {
+      this.props.onContextMenuEdge?.(e, this._getEdgeEventDetails(e));
+    }
+  };
+
+  private _onPointerEnterEdge = (e: React.PointerEvent<SVGGElement>) => {
+    this.props.onHoverStartEdge?.(e, this._getEdgeEventDetails(e));
+  };
+
+  private _onPointerLeaveEdge = (e: React.PointerEvent<SVGGElement>) => {
+    this.props.onHoverEndEdge?.(e, this._getEdgeEventDetails(e));
+  };
+
+  // For events on edge containers.
+  private _getEdgeEventDetails(e: React.MouseEvent<SVGGElement>): EdgeEventDetails<N, E> {
+    const { id } = e.currentTarget.dataset;
+    assertNonNull(id);
+    const edge = this.props.edges[id];
+    return {
+      edge,
+      id,
+      source: this.props.nodes[edge.sourceId],
+      target: this.props.nodes[edge.targetId],
+      position: this._toWorldSpacePosition(e),
+    };
+  }
+
+  private _getSelection(): SelectionSets {
+    return {
+      nodeIds: new Set(this.props.selectedNodeIds),
+      edgeIds: new Set(this.props.selectedEdgeIds),
+    };
+  }
+
+  // Edges whose nodes exist, with any in-progress drag applied to their ends, and ends hidden in
+  // collapsed groups moved to those groups. The edge being reconnected, if any, is omitted since
+  // it's drawn by the incomplete edge instead.
+  private _getRenderedEdges(
+    draggedNodeIds: Set<string>,
+    dragOffset: Position | undefined,
+    resized: NodeResizeEventDetails<N> | undefined,
+    visibleNodeIds: Map<string, string>,
+  ) {
+    const reconnectingEdgeId = this.state.incompleteEdge?.reconnect?.edgeId;
+    const { waypointDrag } = this.state;
+    const rendered: {
+      id: string;
+      edge: E;
+      source: N;
+      target: N;
+      sourceId: string;
+      targetId: string;
+    }[] = [];
+    objectEntries(this.props.edges).forEach(([id, e]) => {
+      const edge =
+        waypointDrag?.edgeId === id
+          ? { ...e, waypoints: this._getDraggedWaypoints(waypointDrag, waypointDrag.last) }
+          : e;
+      const ends = getVisibleEdgeEnds(edge, visibleNodeIds);
+      if (ends == null) {
+        return;
+      }
+      const [sourceId, targetId] = ends;
+      const source = this.props.nodes[sourceId];
+      const target = this.props.nodes[targetId];
+
+      // TODO: We should warn about null nodes, but probably not explode?
+      if (source == null || target == null || id === reconnectingEdgeId) {
+        return;
+      }
+
+      rendered.push({
         id,
-        position: this._toWorldSpacePosition(e),
+        edge,
+        source: getRenderedNode(source, sourceId, draggedNodeIds, dragOffset, resized),
+        target: getRenderedNode(target, targetId, draggedNodeIds, dragOffset, resized),
+        sourceId,
+        targetId,
       });
+    });
+
+    // Number the edges that share both ends, so they can be drawn apart.
+    const keys = rendered.map(getParallelEdgeKey);
+    const counts = new Map<string, number>();
+    keys.forEach(([key]) => {
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    });
+    const indices = new Map<string, number>();
+    return rendered.map((r, i) => {
+      const [key, isReversed] = keys[i];
+      const count = counts.get(key) ?? 1;
+      const index = indices.get(key) ?? 0;
+      indices.set(key, index + 1);
+      return { ...r, parallelIndex: isReversed ? count - 1 - index : index, parallelCount: count };
+    });
+  }
+
+  private _getEdgeRoutes(
+    renderedEdges: (RenderedEdgeEnds<N, E> & { id: string })[],
+    visibleNodeIds: Map<string, string>,
+    draggedNodeIds: Set<string>,
+    dragOffset: Position | undefined,
+    resized: NodeResizeEventDetails<N> | undefined,
+  ): Record<string, Position[]> {
+    const { nodes, edges, collapsedNodeIds, getNodePorts, getNodeShape } = this.props;
+    const { dragState, waypointDrag, incompleteEdge } = this.state;
+    const { parallelSpacing, routingMargin } = this._getEdgeLayout();
+    const draggedWaypoints = waypointDrag
+      ? renderedEdges.find(({ id }) => id === waypointDrag.edgeId)?.edge.waypoints
+      : undefined;
+    const inputs = [
+      nodes,
+      edges,
+      collapsedNodeIds,
+      getNodePorts,
+      getNodeShape,
+      parallelSpacing,
+      routingMargin,
+      dragState?.nodeIds,
+      dragOffset?.x,
+      dragOffset?.y,
+      resized?.id,
+      resized?.position.x,
+      resized?.position.y,
+      resized?.width,
+      resized?.height,
+      incompleteEdge?.reconnect?.edgeId,
+      waypointDrag?.edgeId,
+      ...(draggedWaypoints ?? []).flatMap(({ x, y }) => [x, y]),
+    ];
+    const last = this.lastEdgeRouting;
+    if (last && areArraysEqual(last.inputs, inputs)) {
+      return last.routes;
     }
-  };
 
-  private _onMouseEnterNode = (e: React.MouseEvent<SVGGElement>) => {
-    if (this.state.incompleteEdge) {
-      const { id } = e.currentTarget.dataset;
-      assertNonNull(id);
-      this.setState({
-        incompleteEdge: {
-          ...this.state.incompleteEdge,
-          targetId: id,
-        },
+    const obstacles: Rect[] = [];
+    this._getRenderedNodeEntries(visibleNodeIds).forEach(([id, n]) => {
+      const node = getRenderedNode(n, id, draggedNodeIds, dragOffset, resized);
+      const placed = getPlacedNodeShape(node, id, getNodeShape);
+      if (placed) {
+        obstacles.push(getShapeBounds(placed.shape, placed.center));
+      }
+    });
+    const requests: RouteRequest[] = renderedEdges
+      .filter(({ sourceId, targetId }) => sourceId !== targetId)
+      .map((rendered) => {
+        const [sourcePosition, targetPosition] = getEdgeAttachmentPositions(rendered, getNodePorts);
+        return {
+          id: rendered.id,
+          points: [sourcePosition, ...(rendered.edge.waypoints ?? []), targetPosition],
+        };
+      });
+    const routes = routeOrthogonalEdges(obstacles, requests, {
+      margin: routingMargin,
+      spacing: parallelSpacing,
+      cache: this.edgeRouteCache,
+      // This runs on every pointer move of a gesture, so give up on slow legs until it's over.
+      isQuick: dragState != null || resized != null || waypointDrag != null,
+    });
+    if (last) {
+      objectEntries(routes).forEach(([id, route]) => {
+        const lastRoute = last.routes[id];
+        if (lastRoute && areArraysEqual(lastRoute, route, (a, b) => a.x === b.x && a.y === b.y)) {
+          routes[id] = lastRoute;
+        }
       });
     }
-  };
+    this.lastEdgeRouting = { inputs, routes };
+    return routes;
+  }
 
-  private _onMouseLeaveNode = () => {
-    const { incompleteEdge } = this.state;
-    // Check to see if we need to actually shallowly mutate and rerender first...
+  private _getVisibleNodeIds(): Map<string, string> {
+    return getVisibleNodeIds(this.props.nodes, new Set(this.props.collapsedNodeIds));
+  }
+
+  // Visible nodes, with groups ahead of (and so drawn underneath) the nodes nested inside them.
+  private _getRenderedNodeEntries(visibleNodeIds: Map<string, string>): [string, N][] {
+    const depths = new Map<string, number>();
+    const entries = objectEntries(this.props.nodes).filter(([id]) => {
+      depths.set(id, getAncestorIds(this.props.nodes, id).length);
+      return visibleNodeIds.get(id) === id;
+    });
+    return entries.sort(([a], [b]) => (depths.get(a) ?? 0) - (depths.get(b) ?? 0));
+  }
+
+  // Dropped nodes whose parent wasn't dropped along with them move into the innermost sized node
+  // under the pointer, or out of any group if there is none.
+  private _reparentDroppedNodes(e: PointerEvent, nodeIds: string[]) {
+    const { nodes } = this.props;
+    const dropped = new Set(nodeIds);
+    const visibleNodeIds = this._getVisibleNodeIds();
+    const { x, y } = this._toWorldSpacePosition(e);
+    let parentId: string | undefined;
+    let parentDepth = -1;
+    objectEntries(nodes).forEach(([id, n]) => {
+      if (dropped.has(id) || visibleNodeIds.get(id) !== id || n.width == null || n.height == null) {
+        return;
+      }
+      const rect = getNodeRect(n);
+      const depth = getAncestorIds(nodes, id).length;
+      if (
+        x >= rect.x &&
+        x <= rect.x + rect.width &&
+        y >= rect.y &&
+        y <= rect.y + rect.height &&
+        depth >= parentDepth
+      ) {
+        parentId = id;
+        parentDepth = depth;
+      }
+    });
+
+    const reparented = nodeIds.filter((id) => {
+      const previousParentId = nodes[id].parentId;
+      return (
+        previousParentId !== parentId &&
+        (previousParentId == null || !dropped.has(previousParentId))
+      );
+    });
+    if (reparented.length > 0) {
+      this.props.onReparentNodes?.(e, {
+        nodeIds: reparented,
+        parent: parentId != null ? nodes[parentId] : undefined,
+        parentId,
+      });
+    }
+  }
+
+  private _getGuideTargets(id: string): GuideTargets | undefined {
+    const draggedIds = new Set(this._getMovedNodeIds(id));
+    const visibleNodeIds = this._getVisibleNodeIds();
+    const rects = this._getNodeRects(
+      Object.keys(this.props.nodes).filter((nodeId) => visibleNodeIds.get(nodeId) === nodeId),
+    );
+    const bounds = rects.get(id);
+    if (bounds == null) {
+      return undefined;
+    }
+    const others: Rect[] = [];
+    rects.forEach((rect, otherId) => {
+      if (!draggedIds.has(otherId)) {
+        others.push(rect);
+      }
+    });
+    return { bounds, others };
+  }
+
+  // Applies any snapping to the raw drag offset, in world space, implied by the pointer position.
+  private _getSnappedDrag(dragState: NodeDragState, position: ScreenPosition): SnappedDrag {
+    const scale = this.transform?.getScale() ?? 1;
+    const offset = getDragOffset(dragState, position, scale, this._getPan());
+    const snap = this._getSnap();
+    if (snap == null) {
+      return { offset, guides: [] };
+    }
+
+    const { guideTargets } = dragState;
+    const guides: GuideComponentProps[] = [];
+    let xGuide: AxisGuide | undefined;
+    let yGuide: AxisGuide | undefined;
+    if (guideTargets) {
+      const threshold = snap.guideThreshold / scale;
+      const moved = offsetRect(guideTargets.bounds, offset);
+      xGuide = findAxisGuide(moved, guideTargets.others, "x", threshold);
+      yGuide = findAxisGuide(moved, guideTargets.others, "y", threshold);
+    }
+
+    const node = this.props.nodes[dragState.nodeId];
+    const snapped = snapToGrid(offsetPosition(node, offset), snap.gridSize);
+    const snappedOffset = {
+      x: offset.x + (xGuide?.delta ?? snapped.x - node.x - offset.x),
+      y: offset.y + (yGuide?.delta ?? snapped.y - node.y - offset.y),
+    };
+
+    if (guideTargets) {
+      const moved = offsetRect(guideTargets.bounds, snappedOffset);
+      if (xGuide) {
+        const yMin = Math.min(moved.y, xGuide.target.y);
+        const yMax = Math.max(moved.y + moved.height, xGuide.target.y + xGuide.target.height);
+        guides.push({ from: { x: xGuide.value, y: yMin }, to: { x: xGuide.value, y: yMax } });
+      }
+      if (yGuide) {
+        const xMin = Math.min(moved.x, yGuide.target.x);
+        const xMax = Math.max(moved.x + moved.width, yGuide.target.x + yGuide.target.width);
+        guides.push({ from: { x: xMin, y: yGuide.value }, to: { x: xMax, y: yGuide.value } });
+      }
+    }
+
+    return { offset: snappedOffset, guides };
+  }
+
+  // Grabbing a selected node moves the whole node selection; grabbing any other node moves only it.
+  private _getMovedNodeIds(id: string): string[] {
+    const { selectedNodeIds } = this.props;
+    const ids = selectedNodeIds?.includes(id)
+      ? selectedNodeIds.filter((nodeId) => this.props.nodes[nodeId] != null)
+      : [id];
+    const selected = new Set(ids);
+    return [
+      ...ids,
+      ...getDescendantIds(this.props.nodes, ids).filter((nodeId) => !selected.has(nodeId)),
+    ];
+  }
+
+  private _getNodeDragEventDetails(
+    id: string,
+    nodeIds: string[],
+    offset: Position,
+  ): NodeDragEventDetails<N> {
+    const node = this.props.nodes[id];
+    const positions: Record<string, Position> = {};
+    for (const nodeId of nodeIds) {
+      positions[nodeId] = offsetPosition(this.props.nodes[nodeId], offset);
+    }
+    return { node, id, position: offsetPosition(node, offset), positions };
+  }
+
+  private _getNodeResizeEventDetails(
+    resizeState: NodeResizeState,
+    position: ScreenPosition,
+  ): NodeResizeEventDetails<N> {
+    const { nodeId: id, handle, startRect } = resizeState;
+    const node = this.props.nodes[id];
+    const scale = this.transform?.getScale() ?? 1;
+    const offset = getDragOffset(resizeState, position, scale, this._getPan());
+    const settings = this._getResize();
+    const rect = settings ? resizeRect(startRect, handle, offset, settings) : startRect;
+    return {
+      node,
+      id,
+      position: { x: rect.x + rect.width / 2, y: rect.y + rect.height / 2 },
+      width: rect.width,
+      height: rect.height,
+    };
+  }
+
+  // Includes the in-progress marquee selection, if any.
+  private _getRenderedSelection(): SelectionSets {
+    const { marquee } = this.state;
+    return marquee ? this._getMarqueeSelection(marquee) : this._getSelection();
+  }
+
+  private _getMarqueeSelection(marquee: MarqueeState): SelectionSets {
+    const { x, y, width, height } = getMarqueeRect(marquee);
+    const isInside = (p: Position) => p.x >= x && p.x <= x + width && p.y >= y && p.y <= y + height;
+
+    const visibleNodeIds = this._getVisibleNodeIds();
+    const nodeIds = new Set<string>();
+    objectEntries(this.props.nodes).forEach(([id, n]) => {
+      if (visibleNodeIds.get(id) === id && isInside(n)) {
+        nodeIds.add(id);
+      }
+    });
+    const edgeIds = new Set<string>();
+    objectEntries(this.props.edges).forEach(([id, e]) => {
+      const ends = getVisibleEdgeEnds(e, visibleNodeIds);
+      if (ends != null && nodeIds.has(ends[0]) && nodeIds.has(ends[1])) {
+        edgeIds.add(id);
+      }
+    });
+
+    if (marquee.mode === MarqueeMode.REPLACE) {
+      return { nodeIds, edgeIds };
+    } else {
+      const selection = this._getSelection();
+      const combine = (existing: Set<string>, marqueed: Set<string>) => {
+        marqueed.forEach((id) => {
+          if (marquee.mode === MarqueeMode.TOGGLE && existing.has(id)) {
+            existing.delete(id);
+          } else {
+            existing.add(id);
+          }
+        });
+        return existing;
+      };
+      return {
+        nodeIds: combine(selection.nodeIds, nodeIds),
+        edgeIds: combine(selection.edgeIds, edgeIds),
+      };
+    }
+  }
+
+  // Falls back to the first node (or edge) if nothing has been focused yet, or if the previously
+  // focused thing has since been removed, so that there is always something in the tab order.
+  private _getActiveItem(): ActiveItem | undefined {
+    const { activeItem } = this.state;
+    const visibleNodeIds = this._getVisibleNodeIds();
+    const edge = activeItem?.type === "edge" ? this.props.edges[activeItem.id] : undefined;
     if (
-      incompleteEdge &&
-      (incompleteEdge.targetId != null || !incompleteEdge.didLeaveOriginalNode)
+      activeItem != null &&
+      (activeItem.type === "node"
+        ? visibleNodeIds.get(activeItem.id) === activeItem.id
+        : edge != null && getVisibleEdgeEnds(edge, visibleNodeIds) != null)
     ) {
-      // We don't know if the node that's being left is the original node, but you can't
-      // enter another node without first leaving this one, so it's safe to set.
-      this.setState({
-        incompleteEdge: {
-          ...incompleteEdge,
-          targetId: undefined,
-          didLeaveOriginalNode: true,
-        },
+      return activeItem;
+    }
+    const firstNodeId = Object.keys(this.props.nodes).find((id) => visibleNodeIds.get(id) === id);
+    if (firstNodeId != null) {
+      return { type: "node", id: firstNodeId };
+    }
+    const firstEdgeId = Object.keys(this.props.edges)[0];
+    if (firstEdgeId != null) {
+      return { type: "edge", id: firstEdgeId };
+    }
+    return undefined;
+  }
+
+  private _getNodeAriaAttributes(id: string, node: N): AriaAttributes {
+    return {
+      role: "button",
+      label: `Node ${id}`,
+      ...this.props.getNodeAriaAttributes?.(node, id),
+    };
+  }
+
+  private _getEdgeAriaAttributes(id: string, edge: E): AriaAttributes {
+    return {
+      role: "button",
+      label: `Edge from node ${edge.sourceId} to node ${edge.targetId}`,
+      ...this.props.getEdgeAriaAttributes?.(
+        edge,
+        id,
+        this.props.nodes[edge.sourceId],
+        this.props.nodes[edge.targetId],
+      ),
+    };
+  }
+
+  private _focusItem(item: ActiveItem) {
+    const layer = (item.type === "node" ? this.nodeLayer : this.edgeLayer).current;
+    const element = Array.from(layer?.children ?? []).find(
+      (e) => e instanceof SVGGElement && e.dataset.id === item.id,
+    );
+    if (element instanceof SVGGElement) {
+      // This will update the active item via the focus handler.
+      element.focus();
+    }
+  }
+
+  private _onFocusNode = (e: React.FocusEvent<SVGGElement>) => {
+    const { id } = e.currentTarget.dataset;
+    assertNonNull(id);
+    this._setActiveItem({ type: "node", id });
+  };
+
+  private _onFocusEdge = (e: React.FocusEvent<SVGGElement>) => {
+    const { id } = e.currentTarget.dataset;
+    assertNonNull(id);
+    this._setActiveItem({ type: "edge", id });
+  };
+
+  private _setActiveItem(item: ActiveItem) {
+    const { activeItem } = this.state;
+    if (activeItem?.type !== item.type || activeItem.id !== item.id) {
+      this.setState({ activeItem: item });
+    }
+  }
+
+  private _onKeyDownNode = (e: React.KeyboardEvent<SVGGElement>) => {
+    const { id } = e.currentTarget.dataset;
+    assertNonNull(id);
+    const node = this.props.nodes[id];
+    const direction = ARROW_KEY_DIRECTIONS[e.key];
+
+    if (e.key === "Enter" || e.key === " ") {
+      e.preventDefault();
+      this.props.onClickNode?.(e, { node, id, position: node });
+    } else if (direction != null && e.shiftKey) {
+      e.preventDefault();
+      if (this.props.onNodeDragEnd) {
+        const step = this.props.keyboardMoveStep ?? DEFAULT_KEYBOARD_MOVE_STEP;
+        this.props.onNodeDragEnd(
+          e.nativeEvent,
+          this._getNodeDragEventDetails(id, this._getMovedNodeIds(id), {
+            x: direction.x * step,
+            y: direction.y * step,
+          }),
+        );
+      }
+    } else if (direction != null && e.altKey) {
+      // Follow an edge: pick the incident edge whose other end is best in the given direction.
+      e.preventDefault();
+      const visibleNodeIds = this._getVisibleNodeIds();
+      const candidates: [string, Position | undefined][] = [];
+      objectEntries(this.props.edges).forEach(([edgeId, edge]) => {
+        const ends = getVisibleEdgeEnds(edge, visibleNodeIds);
+        if (ends != null && ends.includes(id)) {
+          candidates.push([edgeId, this.props.nodes[ends[0] === id ? ends[1] : ends[0]]]);
+        }
       });
+      const edgeId = findNearestInDirection(node, candidates, direction);
+      if (edgeId != null) {
+        this._focusItem({ type: "edge", id: edgeId });
+      }
+    } else if (direction != null && !e.ctrlKey && !e.metaKey) {
+      e.preventDefault();
+      const visibleNodeIds = this._getVisibleNodeIds();
+      const candidates = objectEntries(this.props.nodes).filter(
+        ([nodeId]) => nodeId !== id && visibleNodeIds.get(nodeId) === nodeId,
+      );
+      const nodeId = findNearestInDirection(node, candidates, direction);
+      if (nodeId != null) {
+        this._focusItem({ type: "node", id: nodeId });
+      }
     }
   };
 
-  private _onClickEdge = (e: React.MouseEvent<SVGGElement>) => {
-    if (this.props.onClickEdge) {
-      const { id } = e.currentTarget.dataset;
-      assertNonNull(id);
-      const edge = this.props.edges[id];
-      this.props.onClickEdge(e, {
+  private _onKeyDownEdge = (e: React.KeyboardEvent<SVGGElement>) => {
+    const { id } = e.currentTarget.dataset;
+    assertNonNull(id);
+    const edge = this.props.edges[id];
+    const [sourceId, targetId] = getVisibleEdgeEnds(edge, this._getVisibleNodeIds()) ?? [
+      edge.sourceId,
+      edge.targetId,
+    ];
+    const source = this.props.nodes[sourceId];
+    const target = this.props.nodes[targetId];
+    const direction = ARROW_KEY_DIRECTIONS[e.key];
+
+    if (e.key === "Enter" || e.key === " ") {
+      e.preventDefault();
+      this.props.onClickEdge?.(e, {
         edge,
         id,
-        source: this.props.nodes[edge.sourceId],
-        target: this.props.nodes[edge.targetId],
-        position: this._toWorldSpacePosition(e),
+        source,
+        target,
+        position: { x: (source.x + target.x) / 2, y: (source.y + target.y) / 2 },
       });
+    } else if (direction != null && !e.ctrlKey && !e.metaKey) {
+      // Follow the edge to whichever end is best in the given direction.
+      e.preventDefault();
+      const nodeId = findNearestInDirection(
+        { x: (source.x + target.x) / 2, y: (source.y + target.y) / 2 },
+        [
+          [sourceId, source],
+          [targetId, target],
+        ],
+        direction,
+      );
+      if (nodeId != null) {
+        this._focusItem({ type: "node", id: nodeId });
+      }
+    }
+  };
+
+  // Nodes and edges handle their own keys and prevent the default for the ones they use, so
+  // anything else that bubbles up here is fair game for the viewport.
+  private _onKeyDownContainer = (e: React.KeyboardEvent<SVGSVGElement>) => {
+    if (e.isDefaultPrevented() || this.transform == null) {
+      return;
+    }
+
+    const direction = ARROW_KEY_DIRECTIONS[e.key];
+    const scale = this.transform.getScale();
+    if (direction != null) {
+      e.preventDefault();
+      this._cancelViewportAnimation();
+      const step = (this.props.keyboardPanStep ?? DEFAULT_KEYBOARD_PAN_STEP) / scale;
+      const pan = this._getPan();
+      this._setPan({ x: pan.x + direction.x * step, y: pan.y + direction.y * step });
+    } else if (e.key === "+" || e.key === "=" || e.key === "-") {
+      e.preventDefault();
+      this._cancelViewportAnimation();
+      const { speed } = this._getZoomConstraints();
+      this._setViewport(this._getPan(), scale * Math.exp(e.key === "-" ? -speed : speed));
+    } else if (e.key === "0") {
+      e.preventDefault();
+      this.fitToView();
+    }
+  };
+
+  private _onContextMenuContainer = (e: React.MouseEvent) => {
+    if (this._isContextMenuSuppressed()) {
+      e.preventDefault();
+    }
+  };
+
+  // Touch devices fire contextmenu on long press, which we might be using for something else.
+  private _isContextMenuSuppressed() {
+    return this.longPress != null || this.state.incompleteEdge != null;
+  }
+
+  private _isDropAccepted(e: React.DragEvent) {
+    return this.props.onDropBackground != null && this.props.shouldAcceptDrop?.(e) !== false;
+  }
+
+  private _onDragOverContainer = (e: React.DragEvent) => {
+    if (this._isDropAccepted(e)) {
+      // Cancelling dragover is how HTML5 drag and drop marks this as a valid drop target.
+      e.preventDefault();
+      if (this.props.dropPreviewComponent) {
+        this.setState({
+          dropPreview: {
+            position: this._toSnappedWorldSpacePosition(e),
+            types: Array.from(e.dataTransfer.types),
+          },
+        });
+      }
+    }
+  };
+
+  private _onDragLeaveContainer = (e: React.DragEvent) => {
+    // dragleave also fires when moving between our own descendants, which we don't care about.
+    const { current: root } = this.root;
+    if (!(e.relatedTarget instanceof Element && root?.contains(e.relatedTarget))) {
+      this.setState({ dropPreview: undefined });
+    }
+  };
+
+  private _onDropContainer = (e: React.DragEvent) => {
+    this.setState({ dropPreview: undefined });
+    if (this._isDropAccepted(e)) {
+      e.preventDefault();
+      this.props.onDropBackground?.(e, this._toSnappedWorldSpacePosition(e), e.dataTransfer);
     }
   };
 
   private _onWheelContainer = (e: React.WheelEvent) => {
-    // Wheel zooms are not bound by default, so forward them here.
-    this.transform?.zoomWithWheel(e.nativeEvent);
+    // Wheel zooms are not bound by default, so forward them here. Zooming around the cursor can move
+    // the center of the viewport, so re-apply (and announce) the pan afterwards to constrain it.
+    if (this.transform) {
+      this._cancelViewportAnimation();
+      this.transform.zoomWithWheel(e.nativeEvent, { silent: true });
+      this._setPan(this._getPan());
+    }
   };
 
-  private _onMouseMoveDocument = (e: MouseEvent) => {
-    const { screenX, screenY } = e;
+  private _onPointerMoveDocument = (e: PointerEvent) => {
+    const { screenX, screenY, pointerId } = e;
     const scale = this.transform?.getScale() ?? 1;
 
-    if (this.state.dragState) {
+    if (this.state.marquee?.pointerId === pointerId) {
+      this.setState({
+        marquee: {
+          ...this.state.marquee,
+          lastPosition: this._toWorldSpacePosition(e),
+        },
+      });
+    }
+
+    if (this.longPress?.pointerId === pointerId) {
+      const tolerance = this._getLongPress()?.tolerance ?? 0;
+      if (
+        Math.abs(this.longPress.start.screenX - screenX) > tolerance ||
+        Math.abs(this.longPress.start.screenY - screenY) > tolerance
+      ) {
+        this._cancelLongPress();
+      } else {
+        this.longPress.last = { screenX, screenY };
+      }
+    }
+
+    this._moveDragGestures(e);
+
+    if (this.pan?.pointerId === pointerId && this.pan.panning) {
+      const pan = this._getPan();
+      this._setPan({
+        x: pan.x - (screenX - this.pan.last.screenX) / scale,
+        y: pan.y - (screenY - this.pan.last.screenY) / scale,
+      });
+      this.pan.last = { screenX, screenY };
+    }
+  };
+
+  // Updates the gestures that support auto-panning, and starts auto-panning if appropriate.
+  private _moveDragGestures(e: PointerPosition) {
+    const { screenX, screenY, pointerId } = e;
+
+    if (this.state.dragState?.pointerId === pointerId) {
       this.setState({
         dragState: {
           ...this.state.dragState,
           last: { screenX, screenY },
         },
       });
+      this._updateAutoPan(e);
+    }
+
+    if (this.state.resizeState?.pointerId === pointerId) {
+      this.setState({
+        resizeState: {
+          ...this.state.resizeState,
+          last: { screenX, screenY },
+        },
+      });
+      this._updateAutoPan(e);
+    }
+
+    if (this.state.waypointDrag?.pointerId === pointerId) {
+      this.setState({
+        waypointDrag: {
+          ...this.state.waypointDrag,
+          last: { screenX, screenY },
+        },
+      });
+      this._updateAutoPan(e);
     }
 
-    if (this.state.incompleteEdge) {
+    const { incompleteEdge } = this.state;
+    if (incompleteEdge?.pointerId === pointerId) {
+      this._updateAutoPan(e);
+      const hoveredId = this._getNodeIdAtPoint(e);
+      const didLeaveOriginalNode =
+        incompleteEdge.didLeaveOriginalNode || hoveredId !== incompleteEdge.sourceId;
+      const targetId =
+        hoveredId === incompleteEdge.sourceId && !didLeaveOriginalNode ? undefined : hoveredId;
       this.setState({
         incompleteEdge: {
-          ...this.state.incompleteEdge,
+          ...incompleteEdge,
+          targetId,
+          targetPort: targetId != null ? this._getPortAtPoint(e, targetId) : undefined,
           last: { screenX, screenY },
+          didLeaveOriginalNode,
         },
       });
     }
+  }
 
-    if (this.pan?.panning) {
-      this.transform?.pan(
-        (screenX - this.pan.last.screenX) / scale,
-        (screenY - this.pan.last.screenY) / scale,
-        { relative: true, force: true },
-      );
-      this.pan.last = { screenX, screenY };
+  private _getAutoPan(): AutoPan | undefined {
+    const { autoPan } = this.props;
+    if (autoPan === false) {
+      return undefined;
+    } else {
+      return {
+        margin: (autoPan === true ? undefined : autoPan?.margin) ?? DEFAULT_AUTO_PAN_MARGIN,
+        speed: (autoPan === true ? undefined : autoPan?.speed) ?? DEFAULT_AUTO_PAN_SPEED,
+      };
     }
+  }
+
+  private _updateAutoPan(e: PointerPosition) {
+    const { pointerId, clientX, clientY, screenX, screenY } = e;
+    const last = { pointerId, clientX, clientY, screenX, screenY };
+    if (this.autoPan?.pointerId === pointerId) {
+      this.autoPan.last = last;
+    } else if (this.autoPan == null && this._getAutoPanVelocity(last) != null) {
+      this.autoPan = {
+        pointerId,
+        last,
+        lastTime: performance.now(),
+        frame: requestAnimationFrame(this._onAutoPanFrame),
+      };
+    }
+  }
+
+  private _onAutoPanFrame = (now: number) => {
+    const { autoPan } = this;
+    assertNonNull(autoPan);
+    const { dragState, resizeState, waypointDrag, incompleteEdge } = this.state;
+    const velocity = this._getAutoPanVelocity(autoPan.last);
+    if (
+      velocity == null ||
+      (dragState?.pointerId !== autoPan.pointerId &&
+        resizeState?.pointerId !== autoPan.pointerId &&
+        waypointDrag?.pointerId !== autoPan.pointerId &&
+        incompleteEdge?.pointerId !== autoPan.pointerId)
+    ) {
+      this.autoPan = undefined;
+      return;
+    }
+
+    this._cancelViewportAnimation();
+    const scale = this.transform?.getScale() ?? 1;
+    const elapsed = (now - autoPan.lastTime) / 1000;
+    const pan = this._getPan();
+    this._setPan({
+      x: pan.x + (velocity.x * elapsed) / scale,
+      y: pan.y + (velocity.y * elapsed) / scale,
+    });
+    // The pointer hasn't moved, but what's underneath it has.
+    this._moveDragGestures(autoPan.last);
+    autoPan.lastTime = now;
+    autoPan.frame = requestAnimationFrame(this._onAutoPanFrame);
   };
 
-  private _onMouseUpDocument = (e: MouseEvent) => {
-    if (this.pan) {
+  // In screen pixels per second, or undefined if the pointer isn't close enough to the edge.
+  private _getAutoPanVelocity(e: PointerPosition): Position | undefined {
+    const settings = this._getAutoPan();
+    const { current: root } = this.root;
+    if (settings == null || root == null) {
+      return undefined;
+    }
+    const { margin, speed } = settings;
+    const { left, right, top, bottom } = root.getBoundingClientRect();
+    const axisVelocity = (position: number, min: number, max: number) => {
+      if (position < min + margin) {
+        return -speed * Math.min((min + margin - position) / margin, 1);
+      } else if (position > max - margin) {
+        return speed * Math.min((position - (max - margin)) / margin, 1);
+      } else {
+        return 0;
+      }
+    };
+    const x = axisVelocity(e.clientX, left, right);
+    const y = axisVelocity(e.clientY, top, bottom);
+    return x !== 0 || y !== 0 ? { x, y } : undefined;
+  }
+
+  private _cancelAutoPan() {
+    if (this.autoPan) {
+      cancelAnimationFrame(this.autoPan.frame);
+      this.autoPan = undefined;
+    }
+  }
+
+  private _onPointerUpDocument = (e: PointerEvent) => {
+    const { pointerId } = e;
+
+    if (this.longPress?.pointerId === pointerId) {
+      this._cancelLongPress();
+    }
+
+    if (this.autoPan?.pointerId === pointerId) {
+      this._cancelAutoPan();
+    }
+
+    if (this.pan?.pointerId === pointerId) {
       this.shouldSkipNextBackgroundClick = !this._isWithinFudgeFactor(e, this.pan.start);
       this.pan = undefined;
     }
 
-    const { dragState } = this.state;
-    if (dragState) {
+    const { dragState, resizeState, waypointDrag, incompleteEdge, marquee } = this.state;
+    if (marquee?.pointerId === pointerId) {
+      // Tiny marquees are treated as clicks instead.
+      if (!this._isWithinFudgeFactor(e, marquee.start)) {
+        this.shouldSkipNextBackgroundClick = true;
+        const { nodeIds, edgeIds } = this._getMarqueeSelection({
+          ...marquee,
+          lastPosition: this._toWorldSpacePosition(e),
+        });
+        this.props.onSelectionChange?.(e, {
+          nodeIds: Array.from(nodeIds),
+          edgeIds: Array.from(edgeIds),
+        });
+      }
+      this.setState({ marquee: undefined });
+    }
+
+    if (dragState?.pointerId === pointerId) {
       if (!this._isWithinFudgeFactor(e, dragState.start)) {
         this.shouldSkipNextNodeClick = dragState.nodeId;
         if (this.props.onNodeDragEnd) {
-          const node = this.props.nodes[dragState.nodeId];
-          const scale = this.transform?.getScale() ?? 1;
-          this.props.onNodeDragEnd(e, {
-            node,
-            id: dragState.nodeId,
-            position: {
-              x: (e.screenX - dragState.start.screenX) / scale + node.x,
-              y: (e.screenY - dragState.start.screenY) / scale + node.y,
-            },
+          this.props.onNodeDragEnd(
+            e,
+            this._getNodeDragEventDetails(
+              dragState.nodeId,
+              dragState.nodeIds,
+              this._getSnappedDrag(dragState, e).offset,
+            ),
+          );
+        }
+        if (this.props.onReparentNodes) {
+          this._reparentDroppedNodes(e, dragState.nodeIds);
+        }
+      }
+      this.setState({ dragState: undefined });
+    }
+
+    if (resizeState?.pointerId === pointerId) {
+      if (!this._isWithinFudgeFactor(e, resizeState.start)) {
+        this.props.onNodeResizeEnd?.(e, this._getNodeResizeEventDetails(resizeState, e));
+      }
+      this.setState({ resizeState: undefined });
+    }
+
+    if (waypointDrag?.pointerId === pointerId) {
+      const edge = this.props.edges[waypointDrag.edgeId];
+      if (edge != null && !this._isWithinFudgeFactor(e, waypointDrag.start)) {
+        this.props.onEdgeWaypointsChange?.(e, {
+          edge,
+          id: waypointDrag.edgeId,
+          waypoints: this._getDraggedWaypoints(waypointDrag, e),
+        });
+      }
+      this.setState({ waypointDrag: undefined });
+    }
+
+    if (incompleteEdge?.pointerId === pointerId && incompleteEdge.reconnect) {
+      const { edgeId, end } = incompleteEdge.reconnect;
+      const edge = this.props.edges[edgeId];
+      const nodeId = this._getNodeIdAtPoint(e);
+      if (nodeId != null) {
+        const port = this._getPortAtPoint(e, nodeId);
+        const [previousNodeId, previousPort] =
+          end === EdgeEnd.SOURCE
+            ? [edge.sourceId, edge.sourcePort]
+            : [edge.targetId, edge.targetPort];
+        // The pointer is captured by the edge handle, which gets the click, so there's no node click
+        // to skip.
+        if (
+          (nodeId !== previousNodeId || port !== previousPort) &&
+          this._canConnect(incompleteEdge, nodeId, port)
+        ) {
+          this.props.onReconnectEdgeEnd?.(e, {
+            edge,
+            id: edgeId,
+            end,
+            node: this.props.nodes[nodeId],
+            nodeId,
+            port,
+          });
+        }
+      } else if (!this._isWithinFudgeFactor(e, incompleteEdge.start)) {
+        this.props.onDetachEdgeEnd?.(e, {
+          edge,
+          id: edgeId,
+          end,
+          position: this._toWorldSpacePosition(e),
+        });
+      }
+      this.setState({ incompleteEdge: undefined });
+    } else if (incompleteEdge?.pointerId === pointerId) {
+      const targetId = this._getNodeIdAtPoint(e);
+      if (
+        targetId != null &&
+        (incompleteEdge.didLeaveOriginalNode || !this._isWithinFudgeFactor(e, incompleteEdge.start))
+      ) {
+        // The pointer is captured by the source node, so that's where the click goes.
+        this.shouldSkipNextNodeClick = incompleteEdge.sourceId;
+        const targetPort = this._getPortAtPoint(e, targetId);
+        if (this._canConnect(incompleteEdge, targetId, targetPort)) {
+          this.props.onCreateEdgeEnd?.(e, {
+            source: this.props.nodes[incompleteEdge.sourceId],
+            sourceId: incompleteEdge.sourceId,
+            sourcePort: incompleteEdge.sourcePort,
+            target: this.props.nodes[targetId],
+            targetId,
+            targetPort,
           });
         }
       }
+      // If we didn't release on a valid node, stop creation anyway.
+      this.setState({ incompleteEdge: undefined });
+    }
+  };
+
+  private _onPointerCancelDocument = (e: PointerEvent) => {
+    const { pointerId } = e;
+
+    if (this.longPress?.pointerId === pointerId) {
+      this._cancelLongPress();
+    }
+
+    if (this.autoPan?.pointerId === pointerId) {
+      this._cancelAutoPan();
+    }
+
+    if (this.pan?.pointerId === pointerId) {
+      this.pan = undefined;
+    }
+
+    if (this.state.marquee?.pointerId === pointerId) {
+      this.setState({ marquee: undefined });
+    }
+
+    if (this.state.dragState?.pointerId === pointerId) {
       this.setState({ dragState: undefined });
     }
 
-    // If we didn't release on a node, stop creation anyway.
-    this.setState({ incompleteEdge: undefined });
+    if (this.state.resizeState?.pointerId === pointerId) {
+      this.setState({ resizeState: undefined });
+    }
+
+    if (this.state.waypointDrag?.pointerId === pointerId) {
+      this.setState({ waypointDrag: undefined });
+    }
+
+    if (this.state.incompleteEdge?.pointerId === pointerId) {
+      this.setState({ incompleteEdge: undefined });
+    }
   };
 
   private _initializeTransform = (e: SVGGElement | null) => {
@@ -541,23 +2733,45 @@ export class Graph<
         // cursor only looks like a pan/zoom cursor when it's not on a node/edge by default, even if
         // nodes and edges don't override the style.
         cursor: "default",
-        minScale: DEFAULT_MIN_ZOOM,
-        maxScale: DEFAULT_MAX_ZOOM,
-        step: DEFAULT_ZOOM_SPEED,
+        ...this._getPanzoomZoomOptions(),
+        // Panzoom defers applying the transform to the next animation frame, so we piggyback on
+        // that to move the background in lockstep with it. Doing this in the change event instead
+        // makes the grid jitter relative to everything else during pans and animations.
+        setTransform: (
+          element: SVGElement,
+          values: PanzoomEvent["detail"],
+          options?: PanzoomOptions,
+        ) => {
+          Panzoom.defaultOptions.setTransform?.(element, values, options);
+          // TODO: Slight bug here: if the background is remounted but no pan is performed
+          // afterwards, it'll be misaligned. We need to do this on background mount too.
+          // TODO: Pull this out into an InfiniteTiled component or something.
+          if (this.background.current) {
+            const { x, y } = values;
+            const { spacing } = this._getGrid();
+            this.background.current.style["transform"] = `translate(${
+              -x - spacing / 2 + (x % spacing)
+            }px,${-y - spacing / 2 + (y % spacing)}px)`;
+          }
+        },
       });
 
-      // TODO: Slight bug here: if the background is remounted but no pan is performed afterwards,
-      // it'll be misaligned. We need to do this on background mount too.
       e.addEventListener("panzoomchange", (poorlyTypedEvent: unknown) => {
         const {
-          detail: { x, y },
+          detail: { scale },
         } = poorlyTypedEvent as PanzoomEvent;
-        // TODO: Pull this out into an InfiniteTiled component or something.
-        if (this.background.current) {
-          const { spacing } = this._getGrid();
-          this.background.current.style["transform"] = `translate(${
-            -x - spacing / 2 + (x % spacing)
-          }px,${-y - spacing / 2 + (y % spacing)}px)`;
+
+        // Panzoom defers some of its initialization with a timeout, so this can fire after we've
+        // already unmounted.
+        if (!this.root.current) {
+          return;
+        } else if (this.isSettingPan) {
+          this._onViewportChange(scale);
+        } else {
+          // Panzoom handles pinches itself, and doesn't know about our constraints, so re-apply
+          // its result through the same path as every other change, which announces it in turn.
+          this._cancelViewportAnimation();
+          this._setViewport(this._getPan(), scale);
         }
       });
     } else {
@@ -565,71 +2779,586 @@ export class Graph<
     }
   };
 
+  private _getPanzoomZoomOptions() {
+    const { min, max, speed } = this._getZoomConstraints();
+    return { minScale: min, maxScale: max, step: speed };
+  }
+
   componentDidMount() {
-    assertNonNull(this.root.current);
-    assertNonNull(this.transform);
-    const rect = this.root.current.getBoundingClientRect();
-    // TODO: Does this need to divide by scale, like other transformations?
-    this.transform.pan(rect.width / 2, rect.height / 2, { force: true });
+    const pan = this.props.pan ?? this.props.defaultPan ?? DEFAULT_PAN;
+    const zoom = this.props.zoom ?? this.props.defaultZoom ?? DEFAULT_ZOOM;
+    // Mark these as already-known so that mounting doesn't echo the initial values back out.
+    this.lastPan = pan;
+    this.lastZoom = zoom;
+    this._setViewport(pan, zoom);
 
-    document.addEventListener("mousemove", this._onMouseMoveDocument);
-    document.addEventListener("mouseup", this._onMouseUpDocument);
+    document.addEventListener("pointermove", this._onPointerMoveDocument);
+    document.addEventListener("pointerup", this._onPointerUpDocument);
+    document.addEventListener("pointercancel", this._onPointerCancelDocument);
+  }
+
+  componentDidUpdate(prevProps: Props<N, E, X>) {
+    if (
+      prevProps.zoomConstraints?.min !== this.props.zoomConstraints?.min ||
+      prevProps.zoomConstraints?.max !== this.props.zoomConstraints?.max ||
+      prevProps.zoomConstraints?.speed !== this.props.zoomConstraints?.speed
+    ) {
+      this.transform?.setOptions(this._getPanzoomZoomOptions());
+      // Re-apply the current viewport to clamp it to the new constraints, if necessary.
+      if (this.transform) {
+        this._setViewport(this._getPan(), this.transform.getScale());
+      }
+    }
+
+    this._syncControlledViewport();
   }
 
   componentWillUnmount() {
-    document.removeEventListener("mousemove", this._onMouseMoveDocument);
-    document.removeEventListener("mouseup", this._onMouseUpDocument);
+    this._cancelViewportAnimation();
+    this._cancelLongPress();
+    this._cancelAutoPan();
+    document.removeEventListener("pointermove", this._onPointerMoveDocument);
+    document.removeEventListener("pointerup", this._onPointerUpDocument);
+    document.removeEventListener("pointercancel", this._onPointerCancelDocument);
+  }
+}
+
+interface SelectionSets {
+  nodeIds: Set<string>;
+  edgeIds: Set<string>;
+}
+
+function getDefaultMarqueeMode(e: React.PointerEvent) {
+  if (e.metaKey || e.ctrlKey) {
+    return MarqueeMode.TOGGLE;
+  } else if (e.shiftKey) {
+    return MarqueeMode.ADD;
+  } else {
+    return MarqueeMode.REPLACE;
   }
 }
 
+// In world space. Includes any panning that happened since the gesture started.
+function getDragOffset(
+  gesture: PannableGesture,
+  { screenX, screenY }: ScreenPosition,
+  scale: number,
+  pan: Pan,
+): Position {
+  return {
+    x: (screenX - gesture.start.screenX) / scale + pan.x - gesture.startPan.x,
+    y: (screenY - gesture.start.screenY) / scale + pan.y - gesture.startPan.y,
+  };
+}
+
+// Where an edge end attaches, in world space: the given port if the node has it, else the node.
+function getAttachmentPosition<N extends Node>(
+  node: N,
+  id: string,
+  port: string | undefined,
+  getNodePorts: ((node: N, id: string) => Record<string, Position>) | undefined,
+): Position {
+  const offset = port != null ? getNodePorts?.(node, id)[port] : undefined;
+  return offset ? offsetPosition(node, offset) : { x: node.x, y: node.y };
+}
+
+interface RenderedEdgeEnds<N extends Node, E extends Edge> {
+  edge: E;
+  source: N;
+  target: N;
+  sourceId: string;
+  targetId: string;
+}
+
+// Ports belong to the edge's own nodes, so ends that have been moved to a collapsed group lose them.
+function getEdgeAttachmentPorts({
+  edge,
+  sourceId,
+  targetId,
+}: RenderedEdgeEnds<Node, Edge>): [string | undefined, string | undefined] {
+  return [
+    sourceId === edge.sourceId ? edge.sourcePort : undefined,
+    targetId === edge.targetId ? edge.targetPort : undefined,
+  ];
+}
+
+// Where the ends of a rendered edge attach.
+function getEdgeAttachmentPositions<N extends Node, E extends Edge>(
+  rendered: RenderedEdgeEnds<N, E>,
+  getNodePorts: ((node: N, id: string) => Record<string, Position>) | undefined,
+): [Position, Position] {
+  const [sourcePort, targetPort] = getEdgeAttachmentPorts(rendered);
+  return [
+    getAttachmentPosition(rendered.source, rendered.sourceId, sourcePort, getNodePorts),
+    getAttachmentPosition(rendered.target, rendered.targetId, targetPort, getNodePorts),
+  ];
+}
+
+// The shape that the given end of an edge is clipped to, if any. Ends attached to ports aren't.
+function getEdgeEndShape<N extends Node>(
+  node: N,
+  id: string,
+  port: string | undefined,
+  getNodeShape: ((node: N, id: string) => NodeShape | undefined) | undefined,
+): PlacedShape | undefined {
+  return port != null ? undefined : getPlacedNodeShape(node, id, getNodeShape);
+}
+
+// Sized nodes are rectangles unless the consumer says otherwise.
+function getPlacedNodeShape<N extends Node>(
+  node: N,
+  id: string,
+  getNodeShape: ((node: N, id: string) => NodeShape | undefined) | undefined,
+): PlacedShape | undefined {
+  const shape = getNodeShape
+    ? getNodeShape(node, id)
+    : node.width != null && node.height != null
+    ? { type: NodeShapeType.RECT as const, width: node.width, height: node.height }
+    : undefined;
+  return shape ? { shape, center: node } : undefined;
+}
+
+// Edges share a key if they attach to the same ends, in either direction. The flag is set for
+// edges that run opposite to the canonical direction for their key.
+function getParallelEdgeKey({
+  edge,
+  sourceId,
+  targetId,
+}: {
+  edge: Edge;
+  sourceId: string;
+  targetId: string;
+}): [string, boolean] {
+  const sourceEnd = [sourceId, sourceId === edge.sourceId ? edge.sourcePort ?? "" : ""];
+  const targetEnd = [targetId, targetId === edge.targetId ? edge.targetPort ?? "" : ""];
+  const isReversed = sourceEnd.join("\0") > targetEnd.join("\0");
+  return [JSON.stringify(isReversed ? [targetEnd, sourceEnd] : [sourceEnd, targetEnd]), isReversed];
+}
+
+// Handles sit `offset` along the edge from the node at their end, towards the nearest waypoint if
+// there is one. Self-edges have no direction to go in, so their handles are spread out sideways
+// instead.
+function getEdgeHandlePosition(
+  source: Position,
+  target: Position,
+  waypoints: Position[],
+  end: EdgeEnd,
+  offset: number,
+): Position {
+  const [from, to] =
+    end === EdgeEnd.SOURCE
+      ? [source, waypoints[0] ?? target]
+      : [target, waypoints[waypoints.length - 1] ?? source];
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const length = Math.hypot(dx, dy);
+  if (length === 0) {
+    return { x: from.x + (end === EdgeEnd.SOURCE ? -offset : offset), y: from.y };
+  } else {
+    const distance = Math.min(offset, length / 2);
+    return { x: from.x + (dx / length) * distance, y: from.y + (dy / length) * distance };
+  }
+}
+
+// The nodes an edge is drawn between, or undefined if it's hidden inside a collapsed group.
+function getVisibleEdgeEnds(
+  { sourceId, targetId }: Edge,
+  visibleNodeIds: Map<string, string>,
+): [string, string] | undefined {
+  const visibleSourceId = visibleNodeIds.get(sourceId) ?? sourceId;
+  const visibleTargetId = visibleNodeIds.get(targetId) ?? targetId;
+  return visibleSourceId === visibleTargetId && sourceId !== targetId
+    ? undefined
+    : [visibleSourceId, visibleTargetId];
+}
+
+// The consumer's extraProps, to spread into the props of any of their components.
+function getExtraProps<X extends object>(extraProps: X | undefined): X {
+  return extraProps ?? ({} as X);
+}
+
+// Sized nodes are centered on their position.
+function getNodeRect({ x, y, width = 0, height = 0 }: Node): Rect {
+  return { x: x - width / 2, y: y - height / 2, width, height };
+}
+
+// The node as it's drawn, with any in-progress drag or resize applied.
+function getRenderedNode<N extends Node>(
+  node: N,
+  id: string,
+  draggedNodeIds: Set<string>,
+  dragOffset: Position | undefined,
+  resized: NodeResizeEventDetails<N> | undefined,
+): N {
+  if (dragOffset && draggedNodeIds.has(id)) {
+    return { ...node, ...offsetPosition(node, dragOffset) };
+  } else if (resized?.id === id) {
+    return getResizedNode(resized);
+  } else {
+    return node;
+  }
+}
+
+function getResizedNode<N extends Node>({
+  node,
+  position,
+  width,
+  height,
+}: NodeResizeEventDetails<N>): N {
+  return { ...node, ...position, width, height };
+}
+
+// Moves the sides named by the handle by the offset, keeping the opposite sides in place. When the
+// aspect ratio is locked, the axis that isn't being dragged grows or shrinks around its center.
+function resizeRect(rect: Rect, handle: ResizeHandle, offset: Position, settings: Resize): Rect {
+  const { minWidth, minHeight, maxWidth, maxHeight, lockAspectRatio } = settings;
+  const dx = handle.includes("w") ? -1 : handle.includes("e") ? 1 : 0;
+  const dy = handle.includes("n") ? -1 : handle.includes("s") ? 1 : 0;
+  let width = Math.min(Math.max(rect.width + dx * offset.x, minWidth), maxWidth);
+  let height = Math.min(Math.max(rect.height + dy * offset.y, minHeight), maxHeight);
+
+  if (lockAspectRatio && rect.width > 0 && rect.height > 0) {
+    // Corners follow whichever axis has been dragged further.
+    const ratio =
+      dx === 0
+        ? height / rect.height
+        : dy === 0
+        ? width / rect.width
+        : Math.max(width / rect.width, height / rect.height);
+    const clamped = Math.min(
+      Math.max(ratio, minWidth / rect.width, minHeight / rect.height),
+      maxWidth / rect.width,
+      maxHeight / rect.height,
+    );
+    width = rect.width * clamped;
+    height = rect.height * clamped;
+  }
+
+  const anchor = (start: number, oldSize: number, newSize: number, direction: number) =>
+    direction < 0
+      ? start + oldSize - newSize
+      : direction > 0
+      ? start
+      : start + (oldSize - newSize) / 2;
+  return {
+    x: anchor(rect.x, rect.width, width, dx),
+    y: anchor(rect.y, rect.height, height, dy),
+    width,
+    height,
+  };
+}
+
+function getResizeHandlePosition(rect: Rect, handle: ResizeHandle): Position {
+  const x = handle.includes("w") ? 0 : handle.includes("e") ? 1 : 0.5;
+  const y = handle.includes("n") ? 0 : handle.includes("s") ? 1 : 0.5;
+  return { x: rect.x + rect.width * x, y: rect.y + rect.height * y };
+}
+
+// Handles for each waypoint, and for the midpoint of each stretch between consecutive points.
+function getWaypointHandles(
+  source: Position,
+  target: Position,
+  waypoints: Position[],
+): Pick<WaypointHandleComponentProps, "index" | "isMidpoint" | "position">[] {
+  const points = [source, ...waypoints, target];
+  const handles: Pick<WaypointHandleComponentProps, "index" | "isMidpoint" | "position">[] = [];
+  for (let i = 1; i < points.length; i++) {
+    const from = points[i - 1];
+    const to = points[i];
+    handles.push({
+      index: i - 1,
+      isMidpoint: true,
+      position: { x: (from.x + to.x) / 2, y: (from.y + to.y) / 2 },
+    });
+    if (i < points.length - 1) {
+      handles.push({ index: i - 1, isMidpoint: false, position: to });
+    }
+  }
+  return handles;
+}
+
+interface AxisGuide {
+  // The world space coordinate being aligned to.
+  value: number;
+  // How far the dragged rect needs to move along the axis to align.
+  delta: number;
+  target: Rect;
+}
+
+// Finds the closest alignment, within the threshold, of the start, middle or end of the rect with
+// the start, middle or end of any of the targets along the given axis.
+function findAxisGuide(
+  rect: Rect,
+  targets: Rect[],
+  axis: "x" | "y",
+  threshold: number,
+): AxisGuide | undefined {
+  const size = axis === "x" ? "width" : "height";
+  const anchors = (r: Rect) => [r[axis], r[axis] + r[size] / 2, r[axis] + r[size]];
+  let best: AxisGuide | undefined;
+  targets.forEach((target) => {
+    anchors(target).forEach((value) => {
+      anchors(rect).forEach((anchor) => {
+        const delta = value - anchor;
+        if (
+          Math.abs(delta) <= threshold &&
+          (best == null || Math.abs(delta) < Math.abs(best.delta))
+        ) {
+          best = { value, delta, target };
+        }
+      });
+    });
+  });
+  return best;
+}
+
+function offsetRect(rect: Rect, offset: Position): Rect {
+  return { ...rect, ...offsetPosition(rect, offset) };
+}
+
+function offsetPosition({ x, y }: Position, offset: Position): Position {
+  return { x: x + offset.x, y: y + offset.y };
+}
+
+function getMarqueeRect({ startPosition, lastPosition }: MarqueeState): Rect {
+  return {
+    x: Math.min(startPosition.x, lastPosition.x),
+    y: Math.min(startPosition.y, lastPosition.y),
+    width: Math.abs(startPosition.x - lastPosition.x),
+    height: Math.abs(startPosition.y - lastPosition.y),
+  };
+}
+
+const ARROW_KEY_DIRECTIONS: Record<string, Position | undefined> = {
+  ArrowUp: { x: 0, y: -1 },
+  ArrowDown: { x: 0, y: 1 },
+  ArrowLeft: { x: -1, y: 0 },
+  ArrowRight: { x: 1, y: 0 },
+};
+
+// Prefers candidates that are close to the origin and close to the axis of the direction. Anything
+// more than 45 degrees off-axis is not considered to be in that direction at all.
+function findNearestInDirection(
+  origin: Position,
+  candidates: [string, Position | undefined][],
+  direction: Position,
+): string | undefined {
+  let best: { id: string; score: number } | undefined;
+  candidates.forEach(([id, position]) => {
+    if (position == null) {
+      return;
+    }
+    const dx = position.x - origin.x;
+    const dy = position.y - origin.y;
+    const along = dx * direction.x + dy * direction.y;
+    const across = Math.abs(dx * direction.y - dy * direction.x);
+    if (along > 0 && across <= along) {
+      const score = along + 2 * across;
+      if (best == null || score < best.score) {
+        best = { id, score };
+      }
+    }
+  });
+  return best?.id;
+}
+
+const VIEWPORT_EPSILON = 1e-6;
+
+const UNCONSTRAINED_PAN: PanConstraints = {
+  xMin: -Infinity,
+  xMax: Infinity,
+  yMin: -Infinity,
+  yMax: Infinity,
+};
+
+function areArraysEqual<T>(
+  a: T[],
+  b: T[],
+  isEqual: (a: T, b: T) => boolean = (x, y) => x === y,
+): boolean {
+  return a.length === b.length && a.every((x, i) => isEqual(x, b[i]));
+}
+
+function isPanEqual(p1: Pan, p2: Pan) {
+  return Math.abs(p1.x - p2.x) < VIEWPORT_EPSILON && Math.abs(p1.y - p2.y) < VIEWPORT_EPSILON;
+}
+
+function isZoomEqual(z1: number, z2: number) {
+  return Math.abs(z1 - z2) < VIEWPORT_EPSILON;
+}
+
 interface NodeContainerProps<N extends Node, X extends object> {
   id: string;
   node: N;
+  getNodePorts: ((node: N, id: string) => Record<string, Position>) | undefined;
+  portComponent: React.ComponentType<PortComponentProps<N> & X>;
   extraProps: X | undefined;
   contentComponent: React.ComponentType<NodeComponentProps<N> & X>;
-  onMouseDown: (e: React.MouseEvent<SVGGElement>) => void;
-  onMouseUp: (e: React.MouseEvent<SVGGElement>) => void;
-  onMouseEnter: (e: React.MouseEvent<SVGGElement>) => void;
-  onMouseLeave: (e: React.MouseEvent<SVGGElement>) => void;
+  isSelected: boolean;
+  isValidConnectionTarget: boolean | undefined;
+  isCollapsed: boolean | undefined;
+  tabIndex: number;
+  // These are flattened, rather than passed as AriaAttributes, to keep memoization effective.
+  ariaRole: string | undefined;
+  ariaLabel: string | undefined;
+  ariaDescription: string | undefined;
+  onPointerDown: (e: React.PointerEvent<SVGGElement>) => void;
   onClick: (e: React.MouseEvent<SVGGElement>) => void;
+  onDoubleClick: (e: React.MouseEvent<SVGGElement>) => void;
+  onContextMenu: (e: React.MouseEvent<SVGGElement>) => void;
+  onPointerEnter: (e: React.PointerEvent<SVGGElement>) => void;
+  onPointerLeave: (e: React.PointerEvent<SVGGElement>) => void;
+  onFocus: (e: React.FocusEvent<SVGGElement>) => void;
+  onKeyDown: (e: React.KeyboardEvent<SVGGElement>) => void;
 }
 
+// React.memo drops the type parameters of the component it wraps, so they're restored here, to keep
+// the props passed in checked against the Graph's own.
 const NodeContainer = React.memo(
   <N extends Node, X extends object>(props: NodeContainerProps<N, X>) => (
     <g
       data-id={props.id}
-      onMouseDown={props.onMouseDown}
-      onMouseUp={props.onMouseUp}
-      onMouseEnter={props.onMouseEnter}
-      onMouseLeave={props.onMouseLeave}
+      tabIndex={props.tabIndex}
+      role={props.ariaRole}
+      aria-label={props.ariaLabel}
+      aria-description={props.ariaDescription}
+      onPointerDown={props.onPointerDown}
       onClick={props.onClick}
+      onDoubleClick={props.onDoubleClick}
+      onContextMenu={props.onContextMenu}
+      onPointerEnter={props.onPointerEnter}
+      onPointerLeave={props.onPointerLeave}
+      onFocus={props.onFocus}
+      onKeyDown={props.onKeyDown}
       className="panzoom-exclude"
     >
-      <props.contentComponent nodeId={props.id} node={props.node} {...(props.extraProps as any)} />
+      <props.contentComponent
+        nodeId={props.id}
+        node={props.node}
+        isSelected={props.isSelected}
+        isValidConnectionTarget={props.isValidConnectionTarget}
+        isCollapsed={props.isCollapsed}
+        {...getExtraProps(props.extraProps)}
+      />
+      {objectEntries(props.getNodePorts?.(props.node, props.id) ?? {}).map(([port, offset]) => (
+        <g key={port} data-port={port}>
+          <props.portComponent
+            node={props.node}
+            nodeId={props.id}
+            port={port}
+            position={offsetPosition(props.node, offset)}
+            {...getExtraProps(props.extraProps)}
+          />
+        </g>
+      ))}
     </g>
   ),
-);
+) as <N extends Node, X extends object>(props: NodeContainerProps<N, X>) => React.ReactElement;
 
 interface EdgeContainerProps<N extends Node, E extends Edge, X extends object> {
   id: string;
   edge: E;
   source: N;
   target: N;
+  sourceId: string;
+  targetId: string;
+  parallelIndex: number;
+  parallelCount: number;
+  getNodePorts: ((node: N, id: string) => Record<string, Position>) | undefined;
+  getNodeShape: ((node: N, id: string) => NodeShape | undefined) | undefined;
+  pathType: PathType;
+  pathDirection: PathDirection;
+  parallelSpacing: number;
+  selfEdgeRadius: number;
+  // Only set when routing, in which case it replaces the path type and waypoints.
+  route: Position[] | undefined;
   extraProps: X | undefined;
   contentComponent: React.ComponentType<EdgeComponentProps<N, E> & X>;
+  isSelected: boolean;
+  tabIndex: number;
+  ariaRole: string | undefined;
+  ariaLabel: string | undefined;
+  ariaDescription: string | undefined;
   onClick: (e: React.MouseEvent<SVGGElement>) => void;
+  onDoubleClick: (e: React.MouseEvent<SVGGElement>) => void;
+  onContextMenu: (e: React.MouseEvent<SVGGElement>) => void;
+  onPointerEnter: (e: React.PointerEvent<SVGGElement>) => void;
+  onPointerLeave: (e: React.PointerEvent<SVGGElement>) => void;
+  onFocus: (e: React.FocusEvent<SVGGElement>) => void;
+  onKeyDown: (e: React.KeyboardEvent<SVGGElement>) => void;
 }
 
+// Generic for the same reason as NodeContainer.
 const EdgeContainer = React.memo(
-  <N extends Node, E extends Edge, X extends object>(props: EdgeContainerProps<N, E, X>) => (
-    <g data-id={props.id} className="panzoom-exclude" onClick={props.onClick}>
-      <props.contentComponent
-        edgeId={props.id}
-        edge={props.edge}
-        source={props.source}
-        target={props.target}
-        {...(props.extraProps as any)}
-      />
-    </g>
-  ),
-);
+  <N extends Node, E extends Edge, X extends object>(props: EdgeContainerProps<N, E, X>) => {
+    const [sourcePosition, targetPosition] = getEdgeAttachmentPositions(props, props.getNodePorts);
+    const [sourcePort, targetPort] = getEdgeAttachmentPorts(props);
+    const { route } = props;
+    const geometry = clipPathToShapes(
+      props.sourceId === props.targetId
+        ? selfEdgeGeometry(
+            sourcePosition,
+            props.selfEdgeRadius,
+            props.parallelIndex,
+            props.parallelCount,
+          )
+        : route
+        ? pathGeometry(
+            route[0],
+            route[route.length - 1],
+            PathType.ORTHOGONAL,
+            props.pathDirection,
+            route.slice(1, -1),
+          )
+        : pathGeometry(
+            sourcePosition,
+            targetPosition,
+            props.pathType,
+            props.pathDirection,
+            props.edge.waypoints,
+            parallelEdgeOffset(props.parallelIndex, props.parallelCount, props.parallelSpacing),
+          ),
+      getEdgeEndShape(props.source, props.sourceId, sourcePort, props.getNodeShape),
+      getEdgeEndShape(props.target, props.targetId, targetPort, props.getNodeShape),
+    );
+    const lastSegment = geometry.segments[geometry.segments.length - 1];
+    return (
+      <g
+        data-id={props.id}
+        tabIndex={props.tabIndex}
+        role={props.ariaRole}
+        aria-label={props.ariaLabel}
+        aria-description={props.ariaDescription}
+        onClick={props.onClick}
+        onDoubleClick={props.onDoubleClick}
+        onContextMenu={props.onContextMenu}
+        onPointerEnter={props.onPointerEnter}
+        onPointerLeave={props.onPointerLeave}
+        onFocus={props.onFocus}
+        onKeyDown={props.onKeyDown}
+        className="panzoom-exclude"
+      >
+        <props.contentComponent
+          edgeId={props.id}
+          edge={props.edge}
+          source={props.source}
+          target={props.target}
+          sourceId={props.sourceId}
+          targetId={props.targetId}
+          sourcePosition={sourcePosition}
+          targetPosition={targetPosition}
+          path={geometryD(geometry)}
+          pathGeometry={geometry}
+          sourceEndpoint={geometry.start}
+          targetEndpoint={lastSegment ? lastSegment[lastSegment.length - 1] : geometry.start}
+          parallelIndex={props.parallelIndex}
+          parallelCount={props.parallelCount}
+          isSelected={props.isSelected}
+          {...getExtraProps(props.extraProps)}
+        />
+      </g>
+    );
+  },
+) as <N extends Node, E extends Edge, X extends object>(
+  props: EdgeContainerProps<N, E, X>,
+) => React.ReactElement;
@@ -0,0 +1,178 @@
+import * as React from "react";
+import type { Node, Edge, Position, Rect, MinimapNodeComponentProps } from "./types";
+import type { Graph, Viewport } from "./Graph";
+import { objectEntries, objectValues } from "./lang";
+
+export interface MinimapProps<N extends Node = Node, E extends Edge = Edge, X extends object = {}> {
+  graph: React.RefObject<Graph<N, E, X>>;
+  nodes: Record<string, N>;
+  edges: Record<string, E>;
+  nodeComponent?: React.ComponentType<MinimapNodeComponentProps<N>>;
+  width?: number;
+  height?: number;
+  // Extra space around the content, as a fraction of its size.
+  padding?: number;
+  className?: string;
+  style?: React.SVGAttributes<SVGSVGElement>["style"];
+}
+
+export const DEFAULT_MINIMAP_WIDTH = 200;
+export const DEFAULT_MINIMAP_HEIGHT = 150;
+export const DEFAULT_MINIMAP_PADDING = 0.1;
+export const DEFAULT_MINIMAP_NODE_RADIUS = 20;
+
+export function DefaultMinimapNode(props: MinimapNodeComponentProps) {
+  return (
+    <circle cx={props.node.x} cy={props.node.y} r={DEFAULT_MINIMAP_NODE_RADIUS} fill="darkgrey" />
+  );
+}
+
+export function Minimap<N extends Node = Node, E extends Edge = Edge, X extends object = {}>(
+  props: MinimapProps<N, E, X>,
+) {
+  const { graph, nodes, edges } = props;
+  const NodeComponent: React.ComponentType<MinimapNodeComponentProps<N>> =
+    props.nodeComponent ?? DefaultMinimapNode;
+  const padding = props.padding ?? DEFAULT_MINIMAP_PADDING;
+
+  const root = React.useRef<SVGSVGElement>(null);
+  const [viewport, setViewport] = React.useState<Viewport | undefined>();
+  // The viewBox is frozen while dragging, since it includes the viewport, and otherwise moving the
+  // viewport would move what's under the pointer, which would move the viewport again.
+  const [drag, setDrag] = React.useState<{ pointerId: number; viewBox: Rect } | undefined>();
+
+  React.useEffect(() => {
+    const { current } = graph;
+    if (current) {
+      setViewport(current.getViewport());
+      return current.addViewportListener(setViewport);
+    } else {
+      return undefined;
+    }
+  }, [graph]);
+
+  const currentViewBox = React.useMemo(() => {
+    const rects: Rect[] = objectValues(nodes).map(({ x, y }) => ({ x, y, width: 0, height: 0 }));
+    if (viewport) {
+      rects.push(viewport.bounds);
+    }
+    return padRect(unionRects(rects) ?? { x: 0, y: 0, width: 0, height: 0 }, padding);
+  }, [nodes, viewport, padding]);
+  const viewBox = drag?.viewBox ?? currentViewBox;
+
+  const toWorldSpacePosition = React.useCallback((e: React.PointerEvent): Position | undefined => {
+    const matrix = root.current?.getScreenCTM();
+    if (matrix) {
+      const { x, y } = new DOMPoint(e.clientX, e.clientY).matrixTransform(matrix.inverse());
+      return { x, y };
+    } else {
+      return undefined;
+    }
+  }, []);
+
+  const centerOn = React.useCallback(
+    (e: React.PointerEvent) => {
+      const position = toWorldSpacePosition(e);
+      if (position) {
+        graph.current?.centerOn(position, false);
+      }
+    },
+    [graph, toWorldSpacePosition],
+  );
+
+  const onPointerDown = React.useCallback(
+    (e: React.PointerEvent<SVGSVGElement>) => {
+      e.currentTarget.setPointerCapture(e.pointerId);
+      setDrag({ pointerId: e.pointerId, viewBox: currentViewBox });
+      centerOn(e);
+    },
+    [centerOn, currentViewBox],
+  );
+
+  const onPointerMove = React.useCallback(
+    (e: React.PointerEvent) => {
+      if (e.pointerId === drag?.pointerId) {
+        centerOn(e);
+      }
+    },
+    [centerOn, drag],
+  );
+
+  const onPointerUp = React.useCallback(
+    (e: React.PointerEvent) => {
+      if (e.pointerId === drag?.pointerId) {
+        setDrag(undefined);
+      }
+    },
+    [drag],
+  );
+
+  return (
+    <svg
+      ref={root}
+      width={props.width ?? DEFAULT_MINIMAP_WIDTH}
+      height={props.height ?? DEFAULT_MINIMAP_HEIGHT}
+      viewBox={`${viewBox.x} ${viewBox.y} ${viewBox.width} ${viewBox.height}`}
+      className={props.className}
+      style={{ cursor: "pointer", touchAction: "none", ...props.style }}
+      onPointerDown={onPointerDown}
+      onPointerMove={onPointerMove}
+      onPointerUp={onPointerUp}
+      onPointerCancel={onPointerUp}
+    >
+      {objectEntries(edges).map(([id, e]) => {
+        const source = nodes[e.sourceId];
+        const target = nodes[e.targetId];
+        return (
+          source &&
+          target && (
+            <line
+              key={id}
+              x1={source.x}
+              y1={source.y}
+              x2={target.x}
+              y2={target.y}
+              stroke="darkgrey"
+              strokeWidth={1}
+              vectorEffect="non-scaling-stroke"
+            />
+          )
+        );
+      })}
+      {objectEntries(nodes).map(([id, n]) => (
+        <NodeComponent key={id} nodeId={id} node={n} />
+      ))}
+      {viewport && (
+        <rect
+          {...viewport.bounds}
+          fill="rgba(0, 0, 0, 0.1)"
+          stroke="black"
+          strokeWidth={1}
+          vectorEffect="non-scaling-stroke"
+        />
+      )}
+    </svg>
+  );
+}
+
+function unionRects(rects: Rect[]): Rect | undefined {
+  if (rects.length === 0) {
+    return undefined;
+  }
+  const xMin = Math.min(...rects.map((r) => r.x));
+  const xMax = Math.max(...rects.map((r) => r.x + r.width));
+  const yMin = Math.min(...rects.map((r) => r.y));
+  const yMax = Math.max(...rects.map((r) => r.y + r.height));
+  return { x: xMin, y: yMin, width: xMax - xMin, height: yMax - yMin };
+}
+
+function padRect(rect: Rect, padding: number): Rect {
+  const dx = rect.width * padding;
+  const dy = rect.height * padding;
+  return {
+    x: rect.x - dx,
+    y: rect.y - dy,
+    width: rect.width + 2 * dx,
+    height: rect.height + 2 * dy,
+  };
+}
@@ -0,0 +1,166 @@
+import type { Node, Edge, Position } from "./types";
+import type { GraphContents } from "./history";
+import { objectEntries, objectValues } from "./lang";
+
+// Bump this whenever the payload shape changes in a way older readers can't handle.
+export const CLIPBOARD_PAYLOAD_VERSION = 1;
+// Distinguishes our payloads from arbitrary JSON that happens to be on the system clipboard.
+export const CLIPBOARD_PAYLOAD_TYPE = "react-interactive-graph/subgraph";
+
+export const DEFAULT_PASTE_OFFSET: Position = { x: 20, y: 20 };
+
+export interface ClipboardPayload<N extends Node = Node, E extends Edge = Edge>
+  extends GraphContents<N, E> {
+  type: typeof CLIPBOARD_PAYLOAD_TYPE;
+  version: typeof CLIPBOARD_PAYLOAD_VERSION;
+}
+
+export interface PasteOptions {
+  generateId: () => string;
+  // If set, the pasted subgraph is centered on this (world space) position; otherwise, it is
+  // shifted from where it was copied by `offset`.
+  position?: Position;
+  offset?: Position;
+}
+
+// Copies the given nodes and any edges whose source and target are both among them. IDs that don't
+// refer to an existing node are ignored.
+export function copySubgraph<N extends Node = Node, E extends Edge = Edge>(
+  { nodes, edges }: GraphContents<N, E>,
+  nodeIds: string[],
+): ClipboardPayload<N, E> {
+  const copiedNodes: Record<string, N> = {};
+  nodeIds.forEach((id) => {
+    if (nodes[id] != null) {
+      copiedNodes[id] = nodes[id];
+    }
+  });
+
+  const copiedEdges: Record<string, E> = {};
+  objectEntries(edges).forEach(([id, e]) => {
+    if (copiedNodes[e.sourceId] != null && copiedNodes[e.targetId] != null) {
+      copiedEdges[id] = e;
+    }
+  });
+
+  return {
+    type: CLIPBOARD_PAYLOAD_TYPE,
+    version: CLIPBOARD_PAYLOAD_VERSION,
+    nodes: copiedNodes,
+    edges: copiedEdges,
+  };
+}
+
+// Returns new nodes and edges, with fresh IDs, suitable for merging into the existing graph.
+export function pasteSubgraph<N extends Node = Node, E extends Edge = Edge>(
+  payload: GraphContents<N, E>,
+  options: PasteOptions,
+): GraphContents<N, E> {
+  const offset = options.position
+    ? getCenteringOffset(objectValues(payload.nodes), options.position)
+    : options.offset ?? DEFAULT_PASTE_OFFSET;
+
+  const idMap = new Map<string, string>();
+  const nodes: Record<string, N> = {};
+  objectEntries(payload.nodes).forEach(([id, n]) => {
+    const newId = options.generateId();
+    idMap.set(id, newId);
+    nodes[newId] = { ...n, x: n.x + offset.x, y: n.y + offset.y };
+  });
+
+  // Nodes pasted along with their group stay inside the copy of it; others keep their parent.
+  objectValues(nodes).forEach((n) => {
+    const parentId = n.parentId != null ? idMap.get(n.parentId) : undefined;
+    if (parentId != null) {
+      n.parentId = parentId;
+    }
+  });
+
+  const edges: Record<string, E> = {};
+  objectEntries(payload.edges).forEach(([, e]) => {
+    const sourceId = idMap.get(e.sourceId);
+    const targetId = idMap.get(e.targetId);
+    // Payloads from the system clipboard are untrusted, so drop edges that would dangle.
+    if (sourceId != null && targetId != null) {
+      edges[options.generateId()] = {
+        ...e,
+        sourceId,
+        targetId,
+        waypoints: e.waypoints?.map(({ x, y }) => ({ x: x + offset.x, y: y + offset.y })),
+      };
+    }
+  });
+
+  return { nodes, edges };
+}
+
+// Equivalent to copying and immediately pasting, without touching any clipboard.
+export function duplicateSubgraph<N extends Node = Node, E extends Edge = Edge>(
+  contents: GraphContents<N, E>,
+  nodeIds: string[],
+  options: PasteOptions,
+): GraphContents<N, E> {
+  return pasteSubgraph(copySubgraph(contents, nodeIds), options);
+}
+
+export function serializeClipboardPayload(payload: ClipboardPayload<Node, Edge>): string {
+  return JSON.stringify(payload);
+}
+
+// Returns undefined if the text isn't a payload this version understands.
+export function parseClipboardPayload<N extends Node = Node, E extends Edge = Edge>(
+  text: string,
+): ClipboardPayload<N, E> | undefined {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+
+  if (
+    isRecord(parsed) &&
+    parsed.type === CLIPBOARD_PAYLOAD_TYPE &&
+    parsed.version === CLIPBOARD_PAYLOAD_VERSION &&
+    isRecord(parsed.nodes) &&
+    isRecord(parsed.edges) &&
+    objectValues(parsed.nodes).every(
+      (n) => isRecord(n) && typeof n.x === "number" && typeof n.y === "number",
+    ) &&
+    objectValues(parsed.edges).every(
+      (e) => isRecord(e) && typeof e.sourceId === "string" && typeof e.targetId === "string",
+    )
+  ) {
+    return (parsed as unknown) as ClipboardPayload<N, E>;
+  } else {
+    return undefined;
+  }
+}
+
+// The system clipboard is what makes copy/paste work across tabs. Both of these reject if the
+// browser denies clipboard access.
+export function writeClipboardPayload(payload: ClipboardPayload<Node, Edge>): Promise<void> {
+  return navigator.clipboard.writeText(serializeClipboardPayload(payload));
+}
+
+export async function readClipboardPayload<N extends Node = Node, E extends Edge = Edge>(): Promise<
+  ClipboardPayload<N, E> | undefined
+> {
+  return parseClipboardPayload<N, E>(await navigator.clipboard.readText());
+}
+
+function getCenteringOffset(nodes: Position[], position: Position): Position {
+  if (nodes.length === 0) {
+    return { x: 0, y: 0 };
+  }
+  const xs = nodes.map(({ x }) => x);
+  const ys = nodes.map(({ y }) => y);
+  return {
+    x: position.x - (Math.min(...xs) + Math.max(...xs)) / 2,
+    y: position.y - (Math.min(...ys) + Math.max(...ys)) / 2,
+  };
+}
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v != null && !Array.isArray(v);
+}
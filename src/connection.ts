@@ -0,0 +1,71 @@
+import type { Node, Edge, ConnectionDetails } from "./types";
+import { objectEntries } from "./lang";
+
+// Suitable for Graph's canConnect prop. The factories below close over the current edges, so
+// recreate them (e.g. with useMemo) whenever the edges change.
+export type ConnectionRule<N extends Node = Node> = (details: ConnectionDetails<N>) => boolean;
+
+export function allConnectionRules<N extends Node = Node>(
+  ...rules: ConnectionRule<N>[]
+): ConnectionRule<N> {
+  return (details) => rules.every((rule) => rule(details));
+}
+
+export function noSelfEdges({ sourceId, targetId }: ConnectionDetails<Node>): boolean {
+  return sourceId !== targetId;
+}
+
+// Edges count as duplicates if they connect the same ports on the same nodes. If undirected, an edge
+// from B to A also counts as a duplicate of an edge from A to B.
+export function noDuplicateEdges<E extends Edge = Edge>(
+  edges: Record<string, E>,
+  directed = true,
+): ConnectionRule<Node> {
+  return ({ sourceId, sourcePort, targetId, targetPort, edgeId }) =>
+    !objectEntries(edges).some(
+      ([id, e]) =>
+        id !== edgeId &&
+        ((e.sourceId === sourceId &&
+          e.sourcePort === sourcePort &&
+          e.targetId === targetId &&
+          e.targetPort === targetPort) ||
+          (!directed &&
+            e.sourceId === targetId &&
+            e.sourcePort === targetPort &&
+            e.targetId === sourceId &&
+            e.targetPort === sourcePort)),
+    );
+}
+
+// Also forbids self-edges, which are the smallest possible cycle.
+export function noCycles<E extends Edge = Edge>(edges: Record<string, E>): ConnectionRule<Node> {
+  return ({ sourceId, targetId, edgeId }) => {
+    // The new edge closes a cycle iff the source is already reachable from the target.
+    const outgoing = new Map<string, string[]>();
+    objectEntries(edges).forEach(([id, e]) => {
+      if (id !== edgeId) {
+        outgoing.set(e.sourceId, [...(outgoing.get(e.sourceId) ?? []), e.targetId]);
+      }
+    });
+
+    const visited = new Set<string>([targetId]);
+    const queue = [targetId];
+    for (let i = 0; i < queue.length; i++) {
+      if (queue[i] === sourceId) {
+        return false;
+      }
+      (outgoing.get(queue[i]) ?? []).forEach((id) => {
+        if (!visited.has(id)) {
+          visited.add(id);
+          queue.push(id);
+        }
+      });
+    }
+    return true;
+  };
+}
+
+// Only allows connections between nodes that have the same type, as determined by getType.
+export function sameType<N extends Node = Node>(getType: (node: N) => unknown): ConnectionRule<N> {
+  return ({ source, target }) => getType(source) === getType(target);
+}
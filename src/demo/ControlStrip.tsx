@@ -17,9 +17,19 @@ export interface Props {
   onChangePreferredPathDirection: (direction: PathDirection) => void;
   dropShadows: boolean;
   onChangeDropShadows: (dropShadows: boolean) => void;
+  ports: boolean;
+  onChangePorts: (ports: boolean) => void;
   onChangeExampleType: (type: ExampleType) => void;
+  onFitToView: () => void;
+  canUndo: boolean;
+  onUndo: () => void;
+  canRedo: boolean;
+  onRedo: () => void;
 }
 
+// Items dragged from the palette are identified by this type on the DataTransfer.
+export const NODE_DRAG_TYPE = "application/x-react-interactive-graph-node";
+
 const popover = {
   position: "absolute" as const,
   zIndex: 2,
@@ -118,6 +128,14 @@ export function ControlStrip(props: Props) {
             props.onChangeDropShadows(!props.dropShadows);
           }}
         />
+        ports
+        <input
+          type="checkbox"
+          checked={props.ports}
+          onChange={() => {
+            props.onChangePorts(!props.ports);
+          }}
+        />
         <select
           onChange={(e) => {
             props.onChangePreferredPathDirection(e.currentTarget.value as PathDirection);
@@ -139,6 +157,23 @@ export function ControlStrip(props: Props) {
             <option key={t}>{t}</option>
           ))}
         </select>
+        <span
+          draggable
+          onDragStart={(e) => {
+            e.dataTransfer.setData(NODE_DRAG_TYPE, "");
+            e.dataTransfer.effectAllowed = "copy";
+          }}
+          style={{ border: "1px dashed black", padding: "0 4px", cursor: "grab" }}
+        >
+          drag to add node
+        </span>
+        <button onClick={props.onFitToView}>fit to view</button>
+        <button disabled={!props.canUndo} onClick={props.onUndo}>
+          undo
+        </button>
+        <button disabled={!props.canRedo} onClick={props.onRedo}>
+          redo
+        </button>
       </div>
       {colorPickerVisible && (
         <div style={popover}>
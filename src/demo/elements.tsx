@@ -1,41 +1,63 @@
 import * as React from "react";
-import type { SelectionSet } from "./hooks";
-import { shape, intersect } from "svg-intersections";
 import {
   Position,
   NodeComponentProps,
   EdgeComponentProps,
   selfEdgePathD,
   pathD,
-  PathType,
-  PathDirection,
+  EdgeEnd,
+  NodeShape,
+  NodeShapeType,
 } from "../";
-import type { IncompleteEdgeComponentProps } from "../types";
+import type {
+  Node as GraphNode,
+  IncompleteEdgeComponentProps,
+  DropPreviewComponentProps,
+} from "../types";
 
 export const NODE_RADIUS = 40;
 export const SELECTION_COLOR = "#5558fc";
 export const ARROW_SIZE = 10;
+export const INVALID_COLOR = "#e03c3c";
+
+const NODE_PORTS: Record<string, Position> = {
+  in: { x: -NODE_RADIUS, y: 0 },
+  out: { x: NODE_RADIUS, y: 0 },
+};
+
+export function getNodePorts(node: GraphNode) {
+  return node.width != null
+    ? { in: { x: -node.width / 2, y: 0 }, out: { x: node.width / 2, y: 0 } }
+    : NODE_PORTS;
+}
+
+export function getNodeShape(node: GraphNode): NodeShape {
+  return node.width != null && node.height != null
+    ? { type: NodeShapeType.ROUNDED_RECT, width: node.width, height: node.height, radius: 4 }
+    : { type: NodeShapeType.CIRCLE, radius: NODE_RADIUS };
+}
 
 export interface ExtraProps {
-  nodeSelection: SelectionSet;
-  edgeSelection: SelectionSet;
-  snap: <T extends Position>(v: T) => T;
-  pathType: PathType;
-  pathDirection: PathDirection;
   dropShadows: boolean;
 }
 
 export function Node(props: NodeComponentProps & ExtraProps) {
-  const node = props.snap(props.node);
-  const isSelected = props.nodeSelection.has(props.nodeId);
+  const { node, isSelected } = props;
+  const { width, height } = node;
   return (
     <>
-      <circle
-        cx={node.x}
-        cy={node.y}
-        r={NODE_RADIUS}
+      {/* Nodes with a size are boxes, which can be resized. */}
+      <rect
+        x={node.x - (width ?? NODE_RADIUS * 2) / 2}
+        y={node.y - (height ?? NODE_RADIUS * 2) / 2}
+        width={width ?? NODE_RADIUS * 2}
+        height={height ?? NODE_RADIUS * 2}
+        rx={width != null && height != null ? 4 : NODE_RADIUS}
+        // Collapsed groups are dashed to hint that there's more inside.
+        strokeDasharray={props.isCollapsed ? "8,4" : undefined}
         strokeWidth={isSelected ? 2 : 1}
-        fill="white"
+        // Dim nodes that the edge being created can't be connected to.
+        fill={props.isValidConnectionTarget === false ? "#eeeeee" : "white"}
         stroke={isSelected ? SELECTION_COLOR : "black"}
         filter={
           props.dropShadows
@@ -62,40 +84,19 @@ export function Node(props: NodeComponentProps & ExtraProps) {
 }
 
 export function Edge(props: EdgeComponentProps & ExtraProps) {
-  const isSelected = props.edgeSelection.has(props.edgeId);
-
-  const snappedSource = props.snap(props.source);
-  const snappedTarget = props.snap(props.target);
-
-  const { points: targetIntersections } = intersect(
-    shape("circle", { cx: snappedTarget.x, cy: snappedTarget.y, r: NODE_RADIUS }),
-    shape("line", {
-      x1: snappedSource.x,
-      y1: snappedSource.y,
-      x2: snappedTarget.x,
-      y2: snappedTarget.y,
-    }),
-  );
-
-  const targetPoint = targetIntersections.length > 0 ? targetIntersections[0] : snappedTarget;
-
-  const d =
-    props.edge.sourceId === props.edge.targetId
-      ? selfEdgePathD(snappedSource, 150)
-      : pathD(snappedSource, targetPoint, props.pathType, props.pathDirection);
-
+  const { isSelected, path } = props;
   return (
     <>
       {/* Superfat edge to make the click target larger. */}
       <path
-        d={d}
+        d={path}
         stroke="transparent"
         strokeWidth={40}
         fill="transparent"
         style={{ cursor: "pointer" }}
       />
       <path
-        d={d}
+        d={path}
         stroke={isSelected ? SELECTION_COLOR : "transparent"}
         strokeWidth={3}
         fill="transparent"
@@ -103,7 +104,7 @@ export function Edge(props: EdgeComponentProps & ExtraProps) {
         style={{ pointerEvents: "none" }}
       />
       <path
-        d={d}
+        d={path}
         stroke="black"
         strokeWidth={isSelected ? 1 : 2}
         fill="transparent"
@@ -115,17 +116,18 @@ export function Edge(props: EdgeComponentProps & ExtraProps) {
 }
 
 export function IncompleteEdge(props: IncompleteEdgeComponentProps & ExtraProps) {
+  const { sourcePosition } = props;
+  const targetPosition = props.targetPosition ?? props.position;
   return (
     <path
       d={
         props.sourceId === props.targetId
-          ? selfEdgePathD(props.snap(props.source), 150)
-          : pathD(
-              props.snap(props.source),
-              props.target ? props.snap(props.target) : props.position,
-            )
+          ? selfEdgePathD(sourcePosition, 150)
+          : props.reconnectingEnd === EdgeEnd.SOURCE
+          ? pathD(targetPosition, sourcePosition)
+          : pathD(sourcePosition, targetPosition)
       }
-      stroke="black"
+      stroke={props.isValid === false ? INVALID_COLOR : "black"}
       strokeWidth={2}
       strokeDasharray="20,10"
       fill="transparent"
@@ -134,6 +136,19 @@ export function IncompleteEdge(props: IncompleteEdgeComponentProps & ExtraProps)
   );
 }
 
+export function DropPreview(props: DropPreviewComponentProps) {
+  return (
+    <circle
+      cx={props.position.x}
+      cy={props.position.y}
+      r={NODE_RADIUS}
+      fill="transparent"
+      stroke="black"
+      strokeDasharray="5,5"
+    />
+  );
+}
+
 export function Defs() {
   return (
     <defs>
@@ -9,6 +9,8 @@ export function nextId() {
 export enum ExampleType {
   SIMPLE = "Simple",
   DAG = "DAG",
+  BOXES = "Boxes",
+  GROUPS = "Groups",
   RANDOM = "Random",
   STRESS_TEST = "Stress Test",
 }
@@ -68,6 +70,45 @@ export const GENERATE: Record<
 
     return { nodes, edges };
   },
+  [ExampleType.BOXES]: () => {
+    const nodes: WithId<Node>[] = [
+      { id: nextId(), x: -150, y: 0, width: 160, height: 80 },
+      { id: nextId(), x: 150, y: -100, width: 120, height: 120 },
+      { id: nextId(), x: 150, y: 100, width: 200, height: 60 },
+    ];
+    const edges: WithId<Edge>[] = [
+      { id: nextId(), sourceId: nodes[0].id, targetId: nodes[1].id },
+      { id: nextId(), sourceId: nodes[0].id, targetId: nodes[2].id },
+    ];
+
+    return { nodes, edges };
+  },
+  [ExampleType.GROUPS]: () => {
+    const outer: WithId<Node> = { id: nextId(), x: 0, y: 0, width: 500, height: 300 };
+    const inner: WithId<Node> = {
+      id: nextId(),
+      x: 100,
+      y: 0,
+      width: 220,
+      height: 200,
+      parentId: outer.id,
+    };
+    const nodes: WithId<Node>[] = [
+      outer,
+      inner,
+      { id: nextId(), x: -150, y: 0, parentId: outer.id },
+      { id: nextId(), x: 100, y: -40, parentId: inner.id },
+      { id: nextId(), x: 100, y: 50, parentId: inner.id },
+      { id: nextId(), x: -400, y: 0 },
+    ];
+    const edges: WithId<Edge>[] = [
+      { id: nextId(), sourceId: nodes[5].id, targetId: nodes[2].id },
+      { id: nextId(), sourceId: nodes[2].id, targetId: nodes[3].id },
+      { id: nextId(), sourceId: nodes[3].id, targetId: nodes[4].id },
+    ];
+
+    return { nodes, edges };
+  },
   [ExampleType.RANDOM]: () => {
     const nodes: WithId<Node>[] = Array(20)
       .fill(undefined)
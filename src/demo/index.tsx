@@ -13,33 +13,51 @@ import {
   PathType,
   PathDirection,
   CreateEdgeEventDetails,
+  GraphSelection,
+  Minimap,
+  EdgeEnd,
+  GraphEditType,
+  GraphContents,
+  useGraphHistory,
+  copySubgraph,
+  duplicateSubgraph,
+  pasteSubgraph,
+  readClipboardPayload,
+  noDuplicateEdges,
+  writeClipboardPayload,
+  getChildIds,
+  getDescendantIds,
 } from "../";
 import { Graph } from "../Graph";
 
-import { useSelectionSet } from "./hooks";
 import { useDocumentEvent } from "../hooks";
-import { ControlStrip } from "./ControlStrip";
+import { ControlStrip, NODE_DRAG_TYPE } from "./ControlStrip";
 import { ExampleType, GENERATE, nextId } from "./exampleData";
-import { snapToGrid } from "../util";
-import { keyBy } from "./util";
+import { keyBy, toggle } from "./util";
 import {
   Node as NodeComponent,
   Edge as EdgeComponent,
   IncompleteEdge as IncompleteEdgeComponent,
+  DropPreview,
   Defs,
   ExtraProps,
+  getNodePorts,
+  getNodeShape,
 } from "./elements";
-import { mapValues, omitBy } from "../lang";
+
+const EMPTY_SELECTION: GraphSelection = { nodeIds: [], edgeIds: [] };
 
 export function Demo() {
-  const [nodes, setNodes] = React.useState<Record<string, Node>>({});
-  const [edges, setEdges] = React.useState<Record<string, Edge>>({});
+  const { nodes, edges, apply, undo, redo, reset, canUndo, canRedo } = useGraphHistory<Node, Edge>({
+    nodes: {},
+    edges: {},
+  });
+  const graph = React.useRef<Graph<Node, Edge, ExtraProps>>(null);
 
   React.useEffect(() => {
     const { nodes, edges } = GENERATE[ExampleType.SIMPLE]();
-    setNodes(keyBy(nodes, "id"));
-    setEdges(keyBy(edges, "id"));
-  }, []);
+    reset({ nodes: keyBy(nodes, "id"), edges: keyBy(edges, "id") });
+  }, [reset]);
 
   const [gridEnabled, setGridEnabled] = React.useState(true);
   const [grid, setGrid] = React.useState<Required<Grid>>({
@@ -51,61 +69,126 @@ export function Demo() {
   const [pathDirection, setPathDirection] = React.useState(PathDirection.AUTO);
   const [gridSnapSize, setGridSnapSize] = React.useState(0);
   const [dropShadows, setDropShadows] = React.useState(false);
+  const [ports, setPorts] = React.useState(false);
 
-  const nodeSelection = useSelectionSet();
-  const edgeSelection = useSelectionSet();
+  const [selection, setSelection] = React.useState<GraphSelection>(EMPTY_SELECTION);
+  const [collapsedNodeIds, setCollapsedNodeIds] = React.useState<string[]>([]);
 
-  const snap = React.useCallback(
-    <T extends Position>(position: T): T => {
-      if (gridSnapSize !== 0) {
-        return snapToGrid(position, gridSnapSize);
-      } else {
-        return position;
-      }
-    },
-    [gridSnapSize],
-  );
+  const snap = React.useMemo(() => ({ gridSize: gridSnapSize, guides: true }), [gridSnapSize]);
 
   const extraProps = React.useMemo((): ExtraProps => {
     console.log("recalc");
     return {
-      nodeSelection,
-      edgeSelection,
-      pathType,
-      pathDirection,
-      snap,
       dropShadows,
     };
-  }, [nodeSelection, edgeSelection, pathType, pathDirection, snap, dropShadows]);
+  }, [dropShadows]);
+  const edgeLayout = React.useMemo(() => ({ pathType, pathDirection, selfEdgeRadius: 150 }), [
+    pathType,
+    pathDirection,
+  ]);
+
+  const canConnect = React.useMemo(() => noDuplicateEdges(edges), [edges]);
 
   const onCreateEdgeEnd = React.useCallback(
-    (_e: React.MouseEvent, { sourceId, targetId }: CreateEdgeEventDetails) => {
-      setEdges((edges) => ({ ...edges, [nextId()]: { sourceId, targetId } }));
+    (_e: PointerEvent, { sourceId, sourcePort, targetId, targetPort }: CreateEdgeEventDetails) => {
+      apply({
+        type: GraphEditType.ADD_EDGES,
+        edges: { [nextId()]: { sourceId, sourcePort, targetId, targetPort } },
+      });
     },
-    [],
+    [apply],
   );
 
   const onDocumentKeyUp = React.useCallback(
     (e: KeyboardEvent) => {
       // TODO: Should probably use keycodes here.
       if (e.key === "Delete" || e.key === "Backspace") {
-        setNodes((nodes) => omitBy(nodes, nodeSelection.has));
-        setEdges((edges) =>
-          omitBy(
-            edges,
-            (id, { sourceId, targetId }) =>
-              !edgeSelection.has(id) &&
-              !nodeSelection.has(sourceId) &&
-              !nodeSelection.has(targetId),
-          ),
-        );
+        apply({
+          type: GraphEditType.TRANSACTION,
+          edits: [
+            { type: GraphEditType.REMOVE_EDGES, edgeIds: selection.edgeIds },
+            {
+              type: GraphEditType.REMOVE_NODES,
+              nodeIds: [...selection.nodeIds, ...getDescendantIds(nodes, selection.nodeIds)],
+            },
+          ],
+        });
+        setSelection(EMPTY_SELECTION);
       }
     },
-    [nodeSelection, edgeSelection],
+    [selection, nodes, apply],
   );
 
   useDocumentEvent("keyup", onDocumentKeyUp);
 
+  // Pastes go wherever the pointer was last seen on the page, in the graph's world space.
+  const lastPointerPosition = React.useRef<Position | undefined>();
+  const onDocumentPointerMove = React.useCallback((e: PointerEvent) => {
+    lastPointerPosition.current = { x: e.clientX, y: e.clientY };
+  }, []);
+
+  useDocumentEvent("pointermove", onDocumentPointerMove);
+
+  const addAndSelect = React.useCallback(
+    ({ nodes, edges }: GraphContents<Node, Edge>) => {
+      apply({
+        type: GraphEditType.TRANSACTION,
+        edits: [
+          { type: GraphEditType.ADD_NODES, nodes },
+          { type: GraphEditType.ADD_EDGES, edges },
+        ],
+      });
+      setSelection({ nodeIds: Object.keys(nodes), edgeIds: Object.keys(edges) });
+    },
+    [apply],
+  );
+
+  const onDocumentKeyDown = React.useCallback(
+    (e: KeyboardEvent) => {
+      // Text fields have their own copy, paste and undo.
+      if (!(e.metaKey || e.ctrlKey) || isEditable(e.target)) {
+        return;
+      }
+
+      const key = e.key.toLowerCase();
+      // Groups are copied along with everything inside them.
+      const copiedNodeIds = [...selection.nodeIds, ...getDescendantIds(nodes, selection.nodeIds)];
+      if (key === "z") {
+        e.preventDefault();
+        if (e.shiftKey) {
+          redo();
+        } else {
+          undo();
+        }
+      } else if (key === "y") {
+        e.preventDefault();
+        redo();
+      } else if (key === "c" && selection.nodeIds.length > 0) {
+        e.preventDefault();
+        // The clipboard may be unavailable or access to it denied, in which case copying and
+        // pasting quietly do nothing.
+        writeClipboardPayload(copySubgraph({ nodes, edges }, copiedNodeIds)).catch(() => undefined);
+      } else if (key === "v") {
+        e.preventDefault();
+        readClipboardPayload()
+          .then((payload) => {
+            if (payload) {
+              const screenPosition = lastPointerPosition.current;
+              const position = screenPosition && graph.current?.screenToWorld(screenPosition);
+              addAndSelect(pasteSubgraph(payload, { generateId: nextId, position }));
+            }
+          })
+          .catch(() => undefined);
+      } else if (key === "d" && selection.nodeIds.length > 0) {
+        e.preventDefault();
+        addAndSelect(duplicateSubgraph({ nodes, edges }, copiedNodeIds, { generateId: nextId }));
+      }
+    },
+    [undo, redo, nodes, edges, selection, addAndSelect],
+  );
+
+  useDocumentEvent("keydown", onDocumentKeyDown);
+
   return (
     <>
       <ControlStrip
@@ -121,62 +204,139 @@ export function Demo() {
         onChangePreferredPathDirection={setPathDirection}
         dropShadows={dropShadows}
         onChangeDropShadows={setDropShadows}
+        ports={ports}
+        onChangePorts={setPorts}
         onChangeExampleType={(t) => {
           const { nodes, edges } = GENERATE[t]();
-          setNodes(keyBy(nodes, "id"));
-          setEdges(keyBy(edges, "id"));
+          reset({ nodes: keyBy(nodes, "id"), edges: keyBy(edges, "id") });
+          setCollapsedNodeIds([]);
+        }}
+        onFitToView={() => {
+          graph.current?.fitToView();
         }}
+        canUndo={canUndo}
+        onUndo={undo}
+        canRedo={canRedo}
+        onRedo={redo}
       />
       <Graph
+        ref={graph}
         style={{ flex: 1 }}
         grid={gridEnabled && grid}
+        viewportAnimation
+        ariaLabel="Example graph"
         nodes={nodes}
         edges={edges}
         nodeComponent={NodeComponent}
         edgeComponent={EdgeComponent}
         incompleteEdgeComponent={IncompleteEdgeComponent}
+        dropPreviewComponent={DropPreview}
+        getNodePorts={ports ? getNodePorts : undefined}
+        getNodeShape={getNodeShape}
+        edgeLayout={edgeLayout}
         extraProps={extraProps}
+        snap={snap}
+        resizable={{ minWidth: 60, minHeight: 40 }}
+        selectedNodeIds={selection.nodeIds}
+        selectedEdgeIds={selection.edgeIds}
+        collapsedNodeIds={collapsedNodeIds}
+        onSelectionChange={(_, selection) => {
+          setSelection(selection);
+        }}
         onClickNode={(event, n) => {
           if (event.metaKey || event.shiftKey) {
-            nodeSelection.toggle(n.id);
+            setSelection((s) => ({ ...s, nodeIds: toggle(s.nodeIds, n.id) }));
           } else {
-            edgeSelection.reset();
-            nodeSelection.reset(n.id);
+            setSelection({ nodeIds: [n.id], edgeIds: [] });
           }
         }}
         onClickEdge={(event, e) => {
           if (event.metaKey || event.shiftKey) {
-            edgeSelection.toggle(e.id);
+            setSelection((s) => ({ ...s, edgeIds: toggle(s.edgeIds, e.id) }));
           } else {
-            nodeSelection.reset();
-            edgeSelection.reset(e.id);
+            setSelection({ nodeIds: [], edgeIds: [e.id] });
           }
         }}
         onClickBackground={(event, { x, y }) => {
           if (event.altKey) {
-            setNodes((nodes) => ({
-              ...nodes,
-              [nextId()]: { x, y },
-            }));
+            apply({ type: GraphEditType.ADD_NODES, nodes: { [nextId()]: { x, y } } });
           } else {
-            nodeSelection.reset();
-            edgeSelection.reset();
+            setSelection(EMPTY_SELECTION);
+          }
+        }}
+        onDoubleClickNode={(_, { id }) => {
+          if (getChildIds(nodes, id).length > 0) {
+            setCollapsedNodeIds((ids) => toggle(ids, id));
           }
         }}
+        onDoubleClickBackground={(_, { x, y }) => {
+          apply({ type: GraphEditType.ADD_NODES, nodes: { [nextId()]: { x, y } } });
+        }}
+        shouldAcceptDrop={(event) => event.dataTransfer.types.includes(NODE_DRAG_TYPE)}
+        onDropBackground={(_, { x, y }) => {
+          apply({ type: GraphEditType.ADD_NODES, nodes: { [nextId()]: { x, y } } });
+        }}
+        shouldStartMarquee={(event) => event.shiftKey || event.metaKey || event.ctrlKey}
         shouldStartPan={(event) => !event.altKey}
         shouldStartNodeDrag={(event) => !event.altKey}
         shouldStartCreateEdge={(event) => event.altKey}
-        onNodeDragEnd={(_, { id: draggedNodeId, position }) => {
-          setNodes((nodes) =>
-            mapValues(nodes, (id, n) => (id === draggedNodeId ? { ...n, ...position } : n)),
-          );
+        onNodeDragEnd={(_, { positions }) => {
+          apply({ type: GraphEditType.MOVE_NODES, positions });
+        }}
+        onReparentNodes={(_, { nodeIds, parentId }) => {
+          apply({ type: GraphEditType.REPARENT_NODES, nodeIds, parentId });
         }}
+        onNodeResizeEnd={(_, { node, id, position, width, height }) => {
+          apply({
+            type: GraphEditType.ADD_NODES,
+            nodes: { [id]: { ...node, ...position, width, height } },
+          });
+        }}
+        canConnect={canConnect}
         onCreateEdgeEnd={onCreateEdgeEnd}
+        onReconnectEdgeEnd={(_, { edge, id, end, nodeId, port }) => {
+          apply({
+            type: GraphEditType.ADD_EDGES,
+            edges: {
+              [id]:
+                end === EdgeEnd.SOURCE
+                  ? { ...edge, sourceId: nodeId, sourcePort: port }
+                  : { ...edge, targetId: nodeId, targetPort: port },
+            },
+          });
+        }}
+        onEdgeWaypointsChange={(_, { edge, id, waypoints }) => {
+          apply({ type: GraphEditType.ADD_EDGES, edges: { [id]: { ...edge, waypoints } } });
+        }}
+        onDetachEdgeEnd={(_, { id }) => {
+          apply({ type: GraphEditType.REMOVE_EDGES, edgeIds: [id] });
+          setSelection((s) => ({ ...s, edgeIds: s.edgeIds.filter((edgeId) => edgeId !== id) }));
+        }}
       >
         <Defs />
       </Graph>
+      <Minimap
+        graph={graph}
+        nodes={nodes}
+        edges={edges}
+        style={{
+          position: "absolute",
+          right: 10,
+          bottom: 10,
+          backgroundColor: "white",
+          border: "1px solid darkgrey",
+        }}
+      />
     </>
   );
 }
 
+function isEditable(target: EventTarget | null) {
+  return (
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement ||
+    (target instanceof HTMLElement && target.isContentEditable)
+  );
+}
+
 ReactDOM.render(<Demo />, document.getElementById("container"));
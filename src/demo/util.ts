@@ -14,3 +14,7 @@ export function keyBy<T extends object, K extends PropertyNamesOfType<T, string>
   });
   return keyed;
 }
+
+export function toggle<T>(values: T[], value: T): T[] {
+  return values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+}
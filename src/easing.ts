@@ -0,0 +1,18 @@
+// Easing functions map linear progress in [0, 1] onto eased progress, also (nominally) in [0, 1].
+export type EasingFunction = (t: number) => number;
+
+export function easeLinear(t: number) {
+  return t;
+}
+
+export function easeInOutQuad(t: number) {
+  return t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2;
+}
+
+export function easeInOutCubic(t: number) {
+  return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+}
+
+export function easeOutCubic(t: number) {
+  return 1 - Math.pow(1 - t, 3);
+}
@@ -0,0 +1,232 @@
+import type { Position, PathGeometry } from "./types";
+
+// Measuring paths, without a DOM. These take the geometry of a path, such as EdgeComponentProps'
+// pathGeometry, or that of pathD or selfEdgePathD from pathGeometry or selfEdgeGeometry with the
+// same arguments.
+//
+// Lines are measured exactly. Curves are measured along this many straight pieces each, which is
+// within a fraction of a percent for any curve pathD draws, then points are placed on the curve
+// itself.
+const CURVE_SAMPLES_PER_SEGMENT = 32;
+const CLOSEST_POINT_REFINEMENT_STEPS = 24;
+
+export interface PathProjection {
+  // The point on the path closest to the given one.
+  point: Position;
+  // As a fraction of the path's length.
+  fraction: number;
+  distance: number;
+}
+
+export function getPathLength(geometry: PathGeometry): number {
+  const samples = samplePath(geometry);
+  return samples[samples.length - 1].length;
+}
+
+// The point that's the given fraction of the way along the path, by length.
+export function getPointOnPath(geometry: PathGeometry, fraction: number): Position {
+  const { from, segment, t } = findFraction(geometry, fraction);
+  return segment ? pointOnSegment(from, segment, t) : from;
+}
+
+// The unit vector in the direction of travel at the given fraction of the way along the path. A
+// path with no length has no direction, and gets the zero vector.
+export function getTangentOnPath(geometry: PathGeometry, fraction: number): Position {
+  const { from, segment, t } = findFraction(geometry, fraction);
+  return segment ? tangentOnSegment(from, segment, t) : { x: 0, y: 0 };
+}
+
+export function getClosestPointOnPath(geometry: PathGeometry, point: Position): PathProjection {
+  const samples = samplePath(geometry);
+  const total = samples[samples.length - 1].length;
+  if (samples.length === 1) {
+    return { point: geometry.start, fraction: 0, distance: distance(geometry.start, point) };
+  }
+
+  // The closest of the straight pieces is near the closest part of the path.
+  let best = 1;
+  let bestDistance = Infinity;
+  for (let k = 1; k < samples.length; k++) {
+    const { point: a } = samples[k - 1];
+    const { point: b } = samples[k];
+    const d = distance(lerp(a, b, projectOntoLine(a, b, point)), point);
+    if (d < bestDistance) {
+      best = k;
+      bestDistance = d;
+    }
+  }
+
+  const { segment: index } = samples[best];
+  const segment = geometry.segments[index];
+  const from = getSegmentStart(geometry, index);
+  let t: number;
+  if (segment.length === 1) {
+    t = projectOntoLine(from, segment[0], point);
+  } else {
+    // Golden-section search over the pieces on either side, where the distance has one minimum.
+    const step = 1 / CURVE_SAMPLES_PER_SEGMENT;
+    let low = Math.max(0, samples[best].t - step * 2);
+    let high = Math.min(1, samples[best].t + step);
+    const ratio = (Math.sqrt(5) - 1) / 2;
+    const distanceAt = (u: number) => distance(pointOnSegment(from, segment, u), point);
+    for (let i = 0; i < CLOSEST_POINT_REFINEMENT_STEPS; i++) {
+      const a = high - (high - low) * ratio;
+      const b = low + (high - low) * ratio;
+      if (distanceAt(a) < distanceAt(b)) {
+        high = b;
+      } else {
+        low = a;
+      }
+    }
+    t = (low + high) / 2;
+  }
+
+  const closest = pointOnSegment(from, segment, t);
+  return {
+    point: closest,
+    fraction: total > 0 ? getLengthAt(samples, index, t) / total : 0,
+    distance: distance(closest, point),
+  };
+}
+
+export function getDistanceToPath(geometry: PathGeometry, point: Position): number {
+  return getClosestPointOnPath(geometry, point).distance;
+}
+
+// De Casteljau's algorithm, which works for any number of control points.
+export function pointOnSegment(from: Position, segment: Position[], t: number): Position {
+  let points = [from, ...segment];
+  while (points.length > 1) {
+    points = points.slice(1).map((p, i) => lerp(points[i], p, t));
+  }
+  return points[0];
+}
+
+// Both halves include their start point, so they can be drawn as separate segments.
+export function splitSegment(
+  from: Position,
+  segment: Position[],
+  t: number,
+): [Position[], Position[]] {
+  const first: Position[] = [];
+  const second: Position[] = [];
+  let points = [from, ...segment];
+  while (points.length > 0) {
+    first.push(points[0]);
+    second.unshift(points[points.length - 1]);
+    points = points.slice(1).map((p, i) => lerp(points[i], p, t));
+  }
+  return [first, second];
+}
+
+function lerp(a: Position, b: Position, t: number): Position {
+  return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+}
+
+// The derivative of a Bézier curve is another one, through the differences of its control points,
+// which is zero where control points coincide with an end. Stepping just inside gives the direction
+// the curve heads off in there instead.
+function tangentOnSegment(from: Position, segment: Position[], t: number): Position {
+  const points = [from, ...segment];
+  const differences = points
+    .slice(1)
+    .map((p, i) => ({ x: p.x - points[i].x, y: p.y - points[i].y }));
+  let derivative = pointOnSegment(differences[0], differences.slice(1), t);
+  if (derivative.x === 0 && derivative.y === 0) {
+    const before = pointOnSegment(from, segment, Math.max(0, t - 1e-6));
+    const after = pointOnSegment(from, segment, Math.min(1, t + 1e-6));
+    derivative = { x: after.x - before.x, y: after.y - before.y };
+  }
+  const length = Math.hypot(derivative.x, derivative.y);
+  return length === 0 ? { x: 0, y: 0 } : { x: derivative.x / length, y: derivative.y / length };
+}
+
+interface PathSample {
+  // The segment the sample is on, as an index into the path's segments, and the parameter along it.
+  segment: number;
+  t: number;
+  point: Position;
+  // The length of the path up to this sample.
+  length: number;
+}
+
+// Points along the path, starting with its start. Lines get a sample at their end only.
+function samplePath(geometry: PathGeometry): PathSample[] {
+  const samples: PathSample[] = [{ segment: 0, t: 0, point: geometry.start, length: 0 }];
+  let from = geometry.start;
+  geometry.segments.forEach((segment, index) => {
+    const count = segment.length === 1 ? 1 : CURVE_SAMPLES_PER_SEGMENT;
+    for (let k = 1; k <= count; k++) {
+      const t = k / count;
+      const previous = samples[samples.length - 1];
+      const point = pointOnSegment(from, segment, t);
+      samples.push({
+        segment: index,
+        t,
+        point,
+        length: previous.length + distance(previous.point, point),
+      });
+    }
+    from = segment[segment.length - 1];
+  });
+  return samples;
+}
+
+// The segment, and the parameter along it, that's the given fraction of the way along the path.
+function findFraction(
+  geometry: PathGeometry,
+  fraction: number,
+): { from: Position; segment: Position[] | undefined; t: number } {
+  const samples = samplePath(geometry);
+  const total = samples[samples.length - 1].length;
+  if (samples.length === 1) {
+    return { from: geometry.start, segment: undefined, t: 0 };
+  }
+  const target = Math.min(1, Math.max(0, fraction)) * total;
+  let k = 1;
+  while (k < samples.length - 1 && samples[k].length < target) {
+    k++;
+  }
+  const a = samples[k - 1];
+  const b = samples[k];
+  // The previous sample is the end of the previous segment when this is the first of its own.
+  const t0 = a.segment === b.segment ? a.t : 0;
+  const u = b.length > a.length ? (target - a.length) / (b.length - a.length) : 0;
+  return {
+    from: getSegmentStart(geometry, b.segment),
+    segment: geometry.segments[b.segment],
+    t: t0 + (b.t - t0) * u,
+  };
+}
+
+// The length of the path up to the given parameter along the given segment, interpolating between
+// the samples on either side of it.
+function getLengthAt(samples: PathSample[], segment: number, t: number): number {
+  const k = samples.findIndex((s) => s.segment === segment && s.t >= t);
+  if (k <= 0) {
+    return 0;
+  }
+  const a = samples[k - 1];
+  const b = samples[k];
+  const t0 = a.segment === b.segment ? a.t : 0;
+  return a.length + (b.length - a.length) * (b.t > t0 ? (t - t0) / (b.t - t0) : 0);
+}
+
+function getSegmentStart({ start, segments }: PathGeometry, index: number): Position {
+  const previous = segments[index - 1];
+  return previous ? previous[previous.length - 1] : start;
+}
+
+// The parameter of the point on the line from a to b, clamped to its ends, closest to p.
+function projectOntoLine(a: Position, b: Position, p: Position): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  return lengthSquared === 0
+    ? 0
+    : Math.min(1, Math.max(0, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared));
+}
+
+function distance(a: Position, b: Position): number {
+  return Math.hypot(b.x - a.x, b.y - a.y);
+}
@@ -0,0 +1,80 @@
+import type { Node } from "./types";
+import { objectEntries } from "./lang";
+
+// Groups are expressed entirely through parentId on their children, so these all take the full
+// record of nodes. Nodes whose parentId refers to a node that doesn't exist are treated as top-level.
+
+export function getChildIds<N extends Node = Node>(nodes: Record<string, N>, id: string): string[] {
+  return objectEntries(nodes)
+    .filter(([, n]) => n.parentId === id)
+    .map(([childId]) => childId);
+}
+
+// Everything nested, at any depth, inside any of the given nodes, not including the nodes
+// themselves (unless they're nested inside one another).
+export function getDescendantIds<N extends Node = Node>(
+  nodes: Record<string, N>,
+  ids: string[],
+): string[] {
+  const children = new Map<string, string[]>();
+  objectEntries(nodes).forEach(([id, n]) => {
+    if (n.parentId != null) {
+      children.set(n.parentId, [...(children.get(n.parentId) ?? []), id]);
+    }
+  });
+
+  const descendants = new Set<string>();
+  const queue = [...ids];
+  for (let i = 0; i < queue.length; i++) {
+    children.get(queue[i])?.forEach((childId) => {
+      if (!descendants.has(childId)) {
+        descendants.add(childId);
+        queue.push(childId);
+      }
+    });
+  }
+  return Array.from(descendants);
+}
+
+// From the immediate parent outwards. Stops early if the parents form a cycle.
+export function getAncestorIds<N extends Node = Node>(
+  nodes: Record<string, N>,
+  id: string,
+): string[] {
+  const ancestors: string[] = [];
+  let parentId = nodes[id]?.parentId;
+  while (parentId != null && nodes[parentId] != null && !ancestors.includes(parentId)) {
+    ancestors.push(parentId);
+    parentId = nodes[parentId].parentId;
+  }
+  return ancestors;
+}
+
+// Whether making parentId the parent of id would nest a node inside itself.
+export function wouldCreateCycle<N extends Node = Node>(
+  nodes: Record<string, N>,
+  id: string,
+  parentId: string,
+): boolean {
+  return parentId === id || getAncestorIds(nodes, parentId).includes(id);
+}
+
+// Maps each node to the one it's drawn as: itself, or the outermost collapsed group that it's hidden
+// inside.
+export function getVisibleNodeIds<N extends Node = Node>(
+  nodes: Record<string, N>,
+  collapsedIds: Set<string>,
+): Map<string, string> {
+  const visible = new Map<string, string>();
+  Object.keys(nodes).forEach((id) => {
+    const ancestors = getAncestorIds(nodes, id);
+    let visibleId = id;
+    ancestors.forEach((ancestorId) => {
+      if (collapsedIds.has(ancestorId)) {
+        visibleId = ancestorId;
+      }
+    });
+    visible.set(id, visibleId);
+  });
+  return visible;
+}
@@ -0,0 +1,267 @@
+import * as React from "react";
+import type { Node, Edge, Position } from "./types";
+import { objectEntries, omitBy } from "./lang";
+import { getAncestorIds } from "./groups";
+
+export interface GraphContents<N extends Node = Node, E extends Edge = Edge> {
+  nodes: Record<string, N>;
+  edges: Record<string, E>;
+}
+
+export enum GraphEditType {
+  MOVE_NODES = "move-nodes",
+  // Replaces any existing nodes with the same IDs.
+  ADD_NODES = "add-nodes",
+  // Also removes any edges attached to the removed nodes. Nodes nested inside removed ones move up
+  // to the nearest ancestor that isn't removed, or out of any group if there is none.
+  REMOVE_NODES = "remove-nodes",
+  // Moves nodes into the given group, or out of any group if parentId is undefined.
+  REPARENT_NODES = "reparent-nodes",
+  // Replaces any existing edges with the same IDs.
+  ADD_EDGES = "add-edges",
+  REMOVE_EDGES = "remove-edges",
+  // Applies several edits in order as a single undoable step.
+  TRANSACTION = "transaction",
+}
+
+export type GraphEdit<N extends Node = Node, E extends Edge = Edge> =
+  | { type: GraphEditType.MOVE_NODES; positions: Record<string, Position> }
+  | { type: GraphEditType.ADD_NODES; nodes: Record<string, N> }
+  | { type: GraphEditType.REMOVE_NODES; nodeIds: string[] }
+  | { type: GraphEditType.REPARENT_NODES; nodeIds: string[]; parentId: string | undefined }
+  | { type: GraphEditType.ADD_EDGES; edges: Record<string, E> }
+  | { type: GraphEditType.REMOVE_EDGES; edgeIds: string[] }
+  | { type: GraphEditType.TRANSACTION; edits: GraphEdit<N, E>[] };
+
+export interface HistoryOptions {
+  // The maximum number of steps that can be undone. Zero (or less) disables undo.
+  maxDepth: number;
+  // Consecutive moves of the same set of nodes that are closer together than this (in ms) are
+  // merged into a single step, so e.g. holding Shift+Arrow doesn't flood the history.
+  coalesceInterval: number;
+}
+
+export const DEFAULT_HISTORY_MAX_DEPTH = 100;
+export const DEFAULT_HISTORY_COALESCE_INTERVAL = 500;
+
+export interface HistoryState<N extends Node = Node, E extends Edge = Edge> {
+  past: GraphContents<N, E>[];
+  present: GraphContents<N, E>;
+  future: GraphContents<N, E>[];
+  options: HistoryOptions;
+  // Describes the most recent edit, if it was a move that may be coalesced with the next one.
+  lastMove?: { key: string; timestamp: number };
+}
+
+export enum HistoryActionType {
+  APPLY = "apply",
+  UNDO = "undo",
+  REDO = "redo",
+  // Replaces the contents and discards all history.
+  RESET = "reset",
+}
+
+export type HistoryAction<N extends Node = Node, E extends Edge = Edge> =
+  | { type: HistoryActionType.APPLY; edit: GraphEdit<N, E>; timestamp: number }
+  | { type: HistoryActionType.UNDO }
+  | { type: HistoryActionType.REDO }
+  | { type: HistoryActionType.RESET; contents: GraphContents<N, E> };
+
+export function createHistoryState<N extends Node = Node, E extends Edge = Edge>(
+  contents: GraphContents<N, E>,
+  options?: Partial<HistoryOptions>,
+): HistoryState<N, E> {
+  return {
+    past: [],
+    present: contents,
+    future: [],
+    options: {
+      maxDepth: options?.maxDepth ?? DEFAULT_HISTORY_MAX_DEPTH,
+      coalesceInterval: options?.coalesceInterval ?? DEFAULT_HISTORY_COALESCE_INTERVAL,
+    },
+  };
+}
+
+export function historyReducer<N extends Node = Node, E extends Edge = Edge>(
+  state: HistoryState<N, E>,
+  action: HistoryAction<N, E>,
+): HistoryState<N, E> {
+  switch (action.type) {
+    case HistoryActionType.APPLY: {
+      const present = applyGraphEdit(state.present, action.edit);
+      if (present === state.present) {
+        return state;
+      }
+
+      const key = getCoalesceKey(action.edit);
+      const lastMove = key != null ? { key, timestamp: action.timestamp } : undefined;
+      if (
+        key != null &&
+        state.lastMove?.key === key &&
+        action.timestamp - state.lastMove.timestamp < state.options.coalesceInterval
+      ) {
+        return { ...state, present, future: [], lastMove };
+      }
+
+      return {
+        ...state,
+        past: limitDepth([...state.past, state.present], state.options.maxDepth),
+        present,
+        future: [],
+        lastMove,
+      };
+    }
+    case HistoryActionType.UNDO: {
+      if (state.past.length === 0) {
+        return state;
+      }
+      return {
+        ...state,
+        past: state.past.slice(0, -1),
+        present: state.past[state.past.length - 1],
+        future: [state.present, ...state.future],
+        lastMove: undefined,
+      };
+    }
+    case HistoryActionType.REDO: {
+      if (state.future.length === 0) {
+        return state;
+      }
+      return {
+        ...state,
+        past: [...state.past, state.present],
+        present: state.future[0],
+        future: state.future.slice(1),
+        lastMove: undefined,
+      };
+    }
+    case HistoryActionType.RESET:
+      return createHistoryState(action.contents, state.options);
+  }
+}
+
+// Returns the input unchanged if the edit would do nothing.
+export function applyGraphEdit<N extends Node = Node, E extends Edge = Edge>(
+  contents: GraphContents<N, E>,
+  edit: GraphEdit<N, E>,
+): GraphContents<N, E> {
+  switch (edit.type) {
+    case GraphEditType.MOVE_NODES: {
+      const moved = objectEntries(edit.positions).filter(([id]) => contents.nodes[id] != null);
+      if (moved.length === 0) {
+        return contents;
+      }
+      const nodes = { ...contents.nodes };
+      moved.forEach(([id, { x, y }]) => {
+        nodes[id] = { ...nodes[id], x, y };
+      });
+      return { ...contents, nodes };
+    }
+    case GraphEditType.ADD_NODES:
+      return Object.keys(edit.nodes).length === 0
+        ? contents
+        : { ...contents, nodes: { ...contents.nodes, ...edit.nodes } };
+    case GraphEditType.REMOVE_NODES: {
+      const nodeIds = new Set(edit.nodeIds.filter((id) => contents.nodes[id] != null));
+      if (nodeIds.size === 0) {
+        return contents;
+      }
+      const nodes = omitBy(contents.nodes, (id) => nodeIds.has(id));
+      objectEntries(nodes).forEach(([id, node]) => {
+        if (node.parentId != null && nodeIds.has(node.parentId)) {
+          const parentId = getAncestorIds(contents.nodes, id).find((a) => !nodeIds.has(a));
+          nodes[id] = { ...node, parentId };
+        }
+      });
+      return {
+        nodes,
+        edges: omitBy(
+          contents.edges,
+          (_id, { sourceId, targetId }) => nodeIds.has(sourceId) || nodeIds.has(targetId),
+        ),
+      };
+    }
+    case GraphEditType.REPARENT_NODES: {
+      const reparented = edit.nodeIds.filter(
+        (id) => contents.nodes[id] != null && contents.nodes[id].parentId !== edit.parentId,
+      );
+      if (reparented.length === 0) {
+        return contents;
+      }
+      const nodes = { ...contents.nodes };
+      reparented.forEach((id) => {
+        nodes[id] = { ...nodes[id], parentId: edit.parentId };
+      });
+      return { ...contents, nodes };
+    }
+    case GraphEditType.ADD_EDGES:
+      return Object.keys(edit.edges).length === 0
+        ? contents
+        : { ...contents, edges: { ...contents.edges, ...edit.edges } };
+    case GraphEditType.REMOVE_EDGES: {
+      const edgeIds = new Set(edit.edgeIds.filter((id) => contents.edges[id] != null));
+      return edgeIds.size === 0
+        ? contents
+        : { ...contents, edges: omitBy(contents.edges, (id) => edgeIds.has(id)) };
+    }
+    case GraphEditType.TRANSACTION:
+      return edit.edits.reduce(applyGraphEdit, contents);
+  }
+}
+
+// Keeps the most recent steps. slice(-0) would keep everything, hence the special case.
+function limitDepth<T>(past: T[], maxDepth: number): T[] {
+  return maxDepth > 0 ? past.slice(-maxDepth) : [];
+}
+
+function getCoalesceKey(edit: GraphEdit<Node, Edge>): string | undefined {
+  return edit.type === GraphEditType.MOVE_NODES
+    ? Object.keys(edit.positions).sort().join("\0")
+    : undefined;
+}
+
+export interface GraphHistory<N extends Node = Node, E extends Edge = Edge>
+  extends GraphContents<N, E> {
+  apply: (edit: GraphEdit<N, E>) => void;
+  undo: () => void;
+  redo: () => void;
+  reset: (contents: GraphContents<N, E>) => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+// Options are only read on the first render.
+export function useGraphHistory<N extends Node = Node, E extends Edge = Edge>(
+  initialContents: GraphContents<N, E>,
+  options?: Partial<HistoryOptions>,
+): GraphHistory<N, E> {
+  const [state, dispatch] = React.useReducer(
+    historyReducer as React.Reducer<HistoryState<N, E>, HistoryAction<N, E>>,
+    undefined,
+    () => createHistoryState(initialContents, options),
+  );
+
+  const apply = React.useCallback((edit: GraphEdit<N, E>) => {
+    dispatch({ type: HistoryActionType.APPLY, edit, timestamp: Date.now() });
+  }, []);
+  const undo = React.useCallback(() => {
+    dispatch({ type: HistoryActionType.UNDO });
+  }, []);
+  const redo = React.useCallback(() => {
+    dispatch({ type: HistoryActionType.REDO });
+  }, []);
+  const reset = React.useCallback((contents: GraphContents<N, E>) => {
+    dispatch({ type: HistoryActionType.RESET, contents });
+  }, []);
+
+  return {
+    nodes: state.present.nodes,
+    edges: state.present.edges,
+    apply,
+    undo,
+    redo,
+    reset,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0,
+  };
+}
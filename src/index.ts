@@ -1,3 +1,29 @@
 export * from "./types";
-export { PathType, PathDirection, pathD, selfEdgePathD } from "./util";
+export {
+  PathType,
+  PathDirection,
+  pathD,
+  pathGeometry,
+  selfEdgePathD,
+  selfEdgeGeometry,
+  geometryD,
+  parallelEdgeOffset,
+  DEFAULT_PARALLEL_EDGE_SPACING,
+} from "./util";
 export * from "./Graph";
+export * from "./easing";
+export * from "./Minimap";
+export * from "./history";
+export * from "./clipboard";
+export * from "./connection";
+export * from "./groups";
+export * from "./shapes";
+export {
+  PathProjection,
+  getPathLength,
+  getPointOnPath,
+  getTangentOnPath,
+  getClosestPointOnPath,
+  getDistanceToPath,
+} from "./geometry";
+export * from "./routing";
@@ -0,0 +1,720 @@
+import type { Position, Rect } from "./types";
+
+export interface OrthogonalRouting {
+  // In world units, the clearance kept between routes and the obstacles they go around.
+  margin: number;
+  // In world units, the distance between overlapping segments once they've been nudged apart.
+  spacing: number;
+  // In world units, how much longer a route may be to save a bend. Larger values are slower.
+  bendPenalty: number;
+}
+
+export const DEFAULT_ROUTING_MARGIN = 10;
+export const DEFAULT_ROUTING_SPACING = 6;
+export const DEFAULT_ROUTING_BEND_PENALTY = 100;
+
+export interface RouteOptions extends Partial<OrthogonalRouting> {
+  // Routes found by earlier calls, which are reused where nothing near them has changed, and which
+  // are updated with the ones found by this call.
+  cache?: RouteCache;
+  // Gives up on legs that need a long search, and uses a single bend for them instead. Meant for
+  // while something is being dragged, after which routing again without it fixes those legs up.
+  isQuick?: boolean;
+}
+
+export interface RouteRequest {
+  id: string;
+  // The source, any waypoints, and the target, in order.
+  points: Position[];
+}
+
+// Routes each edge through its points with horizontal and vertical segments that go around the
+// obstacles, minimizing their length plus a penalty for each bend. Obstacles that contain either
+// end of a leg, such as the nodes an edge attaches to or groups that they're nested inside, are
+// ignored for that leg, as are obstacles overlapping the node it attaches to. Legs that can't be
+// routed fall back to a single bend. Afterwards, segments of different routes that would overlap
+// are spread apart.
+//
+// The returned routes include their ends, and are suitable for pathD's waypoints with
+// PathType.ORTHOGONAL.
+export function routeOrthogonalEdges(
+  obstacles: Rect[],
+  requests: RouteRequest[],
+  options?: RouteOptions,
+): Record<string, Position[]> {
+  const margin = options?.margin ?? DEFAULT_ROUTING_MARGIN;
+  const spacing = options?.spacing ?? DEFAULT_ROUTING_SPACING;
+  const bendPenalty = options?.bendPenalty ?? DEFAULT_ROUTING_BEND_PENALTY;
+  const isQuick = options?.isQuick ?? false;
+  const cache = options?.cache;
+  const inflated = obstacles.map((o) => ({
+    x: o.x - margin,
+    y: o.y - margin,
+    width: o.width + margin * 2,
+    height: o.height + margin * 2,
+  }));
+  // Regions are padded enough to go around at least one obstacle outside of the straight line.
+  const padding = Math.max(0, ...inflated.map(({ width, height }) => Math.max(width, height)));
+
+  if (cache && (cache.margin !== margin || cache.bendPenalty !== bendPenalty)) {
+    cache.routes.clear();
+  }
+  const [added, removed] = cache ? diffObstacles(cache.obstacles, inflated) : [[], []];
+  const cachedRoutes = new Map<string, CachedRoute>();
+
+  const buffers = new SearchBuffers();
+  const routes = requests.map(({ id, points }) => {
+    const cached = cache?.routes.get(id);
+    const legs: CachedLeg[] = [];
+    for (let i = 1; i < points.length; i++) {
+      const from = points[i - 1];
+      const to = points[i];
+      const previous =
+        cached && isSamePoint(cached.points[i - 1], from) && isSamePoint(cached.points[i], to)
+          ? cached.legs[i - 1]
+          : undefined;
+      if (previous && isLegReusable(previous, added, removed, isQuick)) {
+        legs.push(previous);
+        continue;
+      }
+      const ignored = new Set([
+        ...getEndObstacles(inflated, from),
+        ...getEndObstacles(inflated, to),
+      ]);
+      const relevant = inflated.filter((o) => !ignored.has(o));
+      const simple = findSimpleLeg(from, to, relevant);
+      const result =
+        simple ?? searchLeg(from, to, relevant, padding, bendPenalty, isQuick, buffers);
+      legs.push({
+        path: Array.isArray(result) ? result : fallbackLeg(from, to),
+        // Only quick routing gives up on legs that might have a route, and routing again without
+        // it should find one.
+        isExact: !isQuick || Array.isArray(result) || result === SearchFailure.NO_ROUTE,
+        // Going straight, or with one bend, is as short as can be.
+        isShortest: simple != null && simple.length <= 3,
+      });
+    }
+    cachedRoutes.set(id, { points, legs });
+    const route = [points[0]];
+    legs.forEach(({ path }) => route.push(...path.slice(1)));
+    return simplifyRoute(route);
+  });
+  if (cache) {
+    cache.obstacles = inflated;
+    cache.margin = margin;
+    cache.bendPenalty = bendPenalty;
+    cache.routes = cachedRoutes;
+  }
+
+  const nudged = nudgeRoutes(routes, spacing);
+  const result: Record<string, Position[]> = {};
+  requests.forEach(({ id }, i) => {
+    result[id] = nudged[i];
+  });
+  return result;
+}
+
+// Passed to routeOrthogonalEdges to reuse routes between calls. Searching for a route is the slow
+// part, so when only a few obstacles or points change, such as while dragging a node, only the legs
+// near them are searched for again. With 100 nodes of 80 by 80 and 200 edges between them at
+// random, routing from scratch takes 100 to 200ms, depending on how tightly the nodes are packed,
+// while each step of dragging one of them around takes around 10ms, with isQuick.
+export class RouteCache {
+  // As of the last call, with obstacles inflated by the margin.
+  obstacles: Rect[] = [];
+  margin = NaN;
+  bendPenalty = NaN;
+  routes = new Map<string, CachedRoute>();
+}
+
+interface CachedRoute {
+  points: Position[];
+  // Before simplifying and nudging, from each point to the next.
+  legs: CachedLeg[];
+}
+
+interface CachedLeg {
+  path: Position[];
+  // Whether routing again without isQuick would find the same path.
+  isExact: boolean;
+  // Whether the path is clear and can't be any shorter, so that moving obstacles out of the way
+  // can't improve on it.
+  isShortest: boolean;
+}
+
+// The obstacles that are only in the second list, and those only in the first.
+function diffObstacles(previous: Rect[], current: Rect[]): [Rect[], Rect[]] {
+  const key = ({ x, y, width, height }: Rect) => `${x},${y},${width},${height}`;
+  const counts = new Map<string, number>();
+  previous.forEach((o) => {
+    counts.set(key(o), (counts.get(key(o)) ?? 0) + 1);
+  });
+  const added = current.filter((o) => {
+    const count = counts.get(key(o)) ?? 0;
+    counts.set(key(o), count - 1);
+    return count <= 0;
+  });
+  const removed = previous.filter((o) => {
+    const count = counts.get(key(o)) ?? 0;
+    counts.set(key(o), count - 1);
+    return count > 0;
+  });
+  return [added, removed];
+}
+
+// A leg is still good if no new obstacle is in its way, and no obstacle has moved out of the way
+// of a shorter one, which would be within the leg's bounds.
+function isLegReusable(leg: CachedLeg, added: Rect[], removed: Rect[], isQuick: boolean) {
+  const { path } = leg;
+  if (!leg.isExact && !isQuick) {
+    return false;
+  }
+  if (!path.every((p, i) => i === 0 || isSegmentClear(path[i - 1], p, added))) {
+    return false;
+  }
+  if (leg.isShortest) {
+    return true;
+  }
+  const xs = path.map(({ x }) => x);
+  const ys = path.map(({ y }) => y);
+  const bounds = {
+    x: Math.min(...xs),
+    y: Math.min(...ys),
+    width: Math.max(...xs) - Math.min(...xs),
+    height: Math.max(...ys) - Math.min(...ys),
+  };
+  return removed.every(
+    (o) =>
+      o.x > bounds.x + bounds.width ||
+      o.x + o.width < bounds.x ||
+      o.y > bounds.y + bounds.height ||
+      o.y + o.height < bounds.y,
+  );
+}
+
+// The obstacles that a route may pass through near one of its ends: those that contain the end, and
+// any that overlap the innermost of them, since there's no way around those.
+function getEndObstacles(obstacles: Rect[], end: Position): Rect[] {
+  const containing = obstacles.filter((o) => containsPoint(o, end));
+  if (containing.length === 0) {
+    return [];
+  }
+  const innermost = containing.reduce((a, b) => (b.width * b.height < a.width * a.height ? b : a));
+  return [...containing, ...obstacles.filter((o) => overlaps(o, innermost))];
+}
+
+// Searches that run into the edge of their region are retried once in a region this much bigger.
+const REGION_RETRY_FACTOR = 3;
+
+// Quick searches give up after expanding this many states per grid line, which is usually enough
+// to either find a route or run out of states when an end is walled in.
+const QUICK_SEARCH_BUDGET_PER_LINE = 2;
+// Thorough searches give up after expanding this many states per grid point, so that an end that's
+// walled in by a long way round can't take arbitrarily long.
+const THOROUGH_SEARCH_BUDGET_PER_POINT = 1;
+
+// Overestimating the cost left makes searches head for the end more eagerly, which expands far fewer
+// states, at the cost of sometimes settling for a route that's up to this much worse than the best.
+const SEARCH_HEURISTIC_WEIGHT = 1.2;
+
+// Directions of travel, in the order +x, -x, +y, -y. Reversing flips the lowest bit.
+const DX = [1, -1, 0, 0];
+const DY = [0, 0, 1, -1];
+
+// Going straight, with one bend, or with two bends halfway along, are as short as can be, so any of
+// them that's clear is also optimal when the ones with fewer bends aren't. Checking these first is
+// much cheaper than searching, and usually enough.
+function findSimpleLeg(from: Position, to: Position, obstacles: Rect[]): Position[] | undefined {
+  const midX = (from.x + to.x) / 2;
+  const midY = (from.y + to.y) / 2;
+  const candidates: Position[][] = [
+    ...(from.x === to.x || from.y === to.y ? [[from, to]] : []),
+    [from, { x: to.x, y: from.y }, to],
+    [from, { x: from.x, y: to.y }, to],
+    [from, { x: midX, y: from.y }, { x: midX, y: to.y }, to],
+    [from, { x: from.x, y: midY }, { x: to.x, y: midY }, to],
+  ];
+  return candidates.find((c) =>
+    c.every((p, i) => i === 0 || isSegmentClear(c[i - 1], p, obstacles)),
+  );
+}
+
+function isSegmentClear(a: Position, b: Position, obstacles: Rect[]) {
+  const minX = Math.min(a.x, b.x);
+  const maxX = Math.max(a.x, b.x);
+  const minY = Math.min(a.y, b.y);
+  const maxY = Math.max(a.y, b.y);
+  // Segments may run along an obstacle's side, but not through its interior.
+  return obstacles.every((o) =>
+    minY === maxY
+      ? minY <= o.y || minY >= o.y + o.height || maxX <= o.x || minX >= o.x + o.width
+      : minX <= o.x || minX >= o.x + o.width || maxY <= o.y || minY >= o.y + o.height,
+  );
+}
+
+function fallbackLeg(from: Position, to: Position): Position[] {
+  return Math.abs(to.x - from.x) > Math.abs(to.y - from.y)
+    ? [from, { x: to.x, y: from.y }, to]
+    : [from, { x: from.x, y: to.y }, to];
+}
+
+function searchLeg(
+  from: Position,
+  to: Position,
+  obstacles: Rect[],
+  padding: number,
+  bendPenalty: number,
+  isQuick: boolean,
+  buffers: SearchBuffers,
+): Position[] | SearchFailure {
+  let result: Position[] | SearchFailure = SearchFailure.REGION_TOO_SMALL;
+  for (const regionPadding of isQuick ? [padding] : [padding, padding * REGION_RETRY_FACTOR]) {
+    const search = (a: Position, b: Position, isThorough: boolean) =>
+      searchRegion(a, b, obstacles, regionPadding, bendPenalty, isThorough, buffers);
+    // When one end is walled in, searching from the other one floods everything it can reach
+    // before giving up, so take a quick look from both ends first, one of which runs out of states
+    // right away in that case.
+    result = search(from, to, false);
+    if (result === SearchFailure.OUT_OF_BUDGET) {
+      const reversed = search(to, from, false);
+      result = Array.isArray(reversed)
+        ? reversed.reverse()
+        : reversed === SearchFailure.OUT_OF_BUDGET && !isQuick
+        ? search(from, to, true)
+        : reversed;
+    }
+    if (result !== SearchFailure.REGION_TOO_SMALL) {
+      return result;
+    }
+  }
+  return result;
+}
+
+enum SearchFailure {
+  NO_ROUTE = "no-route",
+  // There might be a route outside the region.
+  REGION_TOO_SMALL = "region-too-small",
+  OUT_OF_BUDGET = "out-of-budget",
+}
+
+// A* over the sparse grid formed by the sides of the obstacles near the leg, which contains the
+// best route, if there is one, since any route can be slid over onto it.
+function searchRegion(
+  from: Position,
+  to: Position,
+  obstacles: Rect[],
+  padding: number,
+  bendPenalty: number,
+  isThorough: boolean,
+  buffers: SearchBuffers,
+): Position[] | SearchFailure {
+  const region = {
+    left: Math.min(from.x, to.x) - padding,
+    right: Math.max(from.x, to.x) + padding,
+    top: Math.min(from.y, to.y) - padding,
+    bottom: Math.max(from.y, to.y) + padding,
+  };
+  const local = obstacles.filter(
+    (o) =>
+      o.x < region.right &&
+      o.x + o.width > region.left &&
+      o.y < region.bottom &&
+      o.y + o.height > region.top,
+  );
+
+  const xs = uniqueSorted([
+    region.left,
+    region.right,
+    from.x,
+    to.x,
+    ...local.flatMap((o) => [o.x, o.x + o.width]),
+  ]).filter((x) => x >= region.left && x <= region.right);
+  const ys = uniqueSorted([
+    region.top,
+    region.bottom,
+    from.y,
+    to.y,
+    ...local.flatMap((o) => [o.y, o.y + o.height]),
+  ]).filter((y) => y >= region.top && y <= region.bottom);
+  const nx = xs.length;
+  const ny = ys.length;
+
+  // The number of obstacles covering the step from each grid point to the next one along x (or y).
+  // Every obstacle side in the region is a grid line, so a step is either entirely inside an
+  // obstacle or entirely outside it.
+  buffers.prepare(nx * ny);
+  const { blockedX, blockedY } = buffers;
+  local.forEach((o) => {
+    const left = lowerBound(xs, o.x);
+    const right = upperBound(xs, o.x + o.width) - 1;
+    const top = lowerBound(ys, o.y);
+    const bottom = upperBound(ys, o.y + o.height) - 1;
+    for (let j = top; j <= bottom; j++) {
+      for (let i = left; i <= right; i++) {
+        if (i < right && ys[j] > o.y && ys[j] < o.y + o.height) {
+          blockedX[j * nx + i]++;
+        }
+        if (j < bottom && xs[i] > o.x && xs[i] < o.x + o.width) {
+          blockedY[j * nx + i]++;
+        }
+      }
+    }
+  });
+
+  const start = xs.indexOf(from.x) + ys.indexOf(from.y) * nx;
+  const goalI = xs.indexOf(to.x);
+  const goalJ = ys.indexOf(to.y);
+
+  // States are a grid point and the direction of travel on arriving there.
+  const heap = new SearchHeap();
+
+  // A lower bound on the cost left, since it never overestimates either the length or the number of
+  // bends. It's weighted by SEARCH_HEURISTIC_WEIGHT below, so searches aren't exact.
+  const estimate = (i: number, j: number, direction: number) => {
+    const dx = Math.sign(goalI - i);
+    const dy = Math.sign(goalJ - j);
+    const length = Math.abs(xs[goalI] - xs[i]) + Math.abs(ys[goalJ] - ys[j]);
+    if (
+      (dx === 0 && dy === 0) ||
+      (dy === 0 && dx === DX[direction]) ||
+      (dx === 0 && dy === DY[direction])
+    ) {
+      return length;
+    } else if ((dy === 0 && dx === -DX[direction]) || (dx === 0 && dy === -DY[direction])) {
+      return length + bendPenalty * 2;
+    } else {
+      return length + bendPenalty;
+    }
+  };
+
+  const startI = start % nx;
+  const startJ = (start - startI) / nx;
+  for (let direction = 0; direction < 4; direction++) {
+    buffers.visit(start * 4 + direction, 0, -1);
+    heap.push(start * 4 + direction, estimate(startI, startJ, direction));
+  }
+
+  let reachedBoundary = false;
+  let budget = isThorough
+    ? THOROUGH_SEARCH_BUDGET_PER_POINT * nx * ny
+    : QUICK_SEARCH_BUDGET_PER_LINE * (nx + ny);
+
+  while (heap.size > 0 && budget-- > 0) {
+    const state = heap.pop();
+    const point = state >> 2;
+    const direction = state & 3;
+    const i = point % nx;
+    const j = (point - i) / nx;
+    if (i === goalI && j === goalJ) {
+      return getSearchPath(state, buffers.previous, xs, ys, nx);
+    }
+    reachedBoundary = reachedBoundary || i === 0 || i === nx - 1 || j === 0 || j === ny - 1;
+
+    for (let next = 0; next < 4; next++) {
+      if (next === (direction ^ 1)) {
+        continue;
+      }
+      const ni = i + DX[next];
+      const nj = j + DY[next];
+      if (ni < 0 || ni >= nx || nj < 0 || nj >= ny) {
+        continue;
+      }
+      const blocked =
+        next < 2 ? blockedX[j * nx + Math.min(i, ni)] : blockedY[Math.min(j, nj) * nx + i];
+      if (blocked > 0) {
+        continue;
+      }
+      const nextState = (nj * nx + ni) * 4 + next;
+      const cost =
+        buffers.getCost(state) +
+        Math.abs(xs[ni] - xs[i]) +
+        Math.abs(ys[nj] - ys[j]) +
+        (next === direction ? 0 : bendPenalty);
+      if (cost < buffers.getCost(nextState)) {
+        buffers.visit(nextState, cost, state);
+        heap.push(nextState, cost + estimate(ni, nj, next) * SEARCH_HEURISTIC_WEIGHT);
+      }
+    }
+  }
+
+  return budget < 0
+    ? SearchFailure.OUT_OF_BUDGET
+    : reachedBoundary
+    ? SearchFailure.REGION_TOO_SMALL
+    : SearchFailure.NO_ROUTE;
+}
+
+function getSearchPath(
+  state: number,
+  previous: Int32Array,
+  xs: number[],
+  ys: number[],
+  nx: number,
+): Position[] {
+  const path: Position[] = [];
+  for (let s = state; s !== -1; s = previous[s]) {
+    const point = s >> 2;
+    path.unshift({ x: xs[point % nx], y: ys[Math.floor(point / nx)] });
+  }
+  return path;
+}
+
+// Scratch space for searches, which is reused because allocating and clearing it for each one would
+// take longer than most searches do.
+class SearchBuffers {
+  // Indexed by grid point.
+  blockedX = new Int32Array(0);
+  blockedY = new Int32Array(0);
+  // Indexed by state, and only meaningful where the generation matches the current search's.
+  costs = new Float64Array(0);
+  previous = new Int32Array(0);
+  private generations = new Int32Array(0);
+  private generation = 0;
+
+  prepare(points: number) {
+    if (this.blockedX.length < points) {
+      this.blockedX = new Int32Array(points);
+      this.blockedY = new Int32Array(points);
+      this.costs = new Float64Array(points * 4);
+      this.previous = new Int32Array(points * 4);
+      this.generations = new Int32Array(points * 4);
+    } else {
+      this.blockedX.fill(0, 0, points);
+      this.blockedY.fill(0, 0, points);
+    }
+    this.generation++;
+  }
+
+  getCost(state: number) {
+    return this.generations[state] === this.generation ? this.costs[state] : Infinity;
+  }
+
+  visit(state: number, cost: number, previous: number) {
+    this.generations[state] = this.generation;
+    this.costs[state] = cost;
+    this.previous[state] = previous;
+  }
+}
+
+// A binary min-heap of search states, ordered by their estimated total cost.
+class SearchHeap {
+  private states: number[] = [];
+  private priorities: number[] = [];
+
+  get size() {
+    return this.states.length;
+  }
+
+  push(state: number, priority: number) {
+    let i = this.states.length;
+    this.states.push(state);
+    this.priorities.push(priority);
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.priorities[parent] <= priority) {
+        break;
+      }
+      this.states[i] = this.states[parent];
+      this.priorities[i] = this.priorities[parent];
+      i = parent;
+    }
+    this.states[i] = state;
+    this.priorities[i] = priority;
+  }
+
+  pop(): number {
+    const top = this.states[0];
+    const state = this.states.pop() as number;
+    const priority = this.priorities.pop() as number;
+    const size = this.states.length;
+    if (size > 0) {
+      let i = 0;
+      for (;;) {
+        let child = i * 2 + 1;
+        if (child >= size) {
+          break;
+        }
+        if (child + 1 < size && this.priorities[child + 1] < this.priorities[child]) {
+          child++;
+        }
+        if (this.priorities[child] >= priority) {
+          break;
+        }
+        this.states[i] = this.states[child];
+        this.priorities[i] = this.priorities[child];
+        i = child;
+      }
+      this.states[i] = state;
+      this.priorities[i] = priority;
+    }
+    return top;
+  }
+}
+
+// Drops repeated points and points in the middle of straight runs.
+function simplifyRoute(route: Position[]): Position[] {
+  const simplified: Position[] = [];
+  route.forEach((p) => {
+    const last = simplified[simplified.length - 1];
+    if (last != null && last.x === p.x && last.y === p.y) {
+      return;
+    }
+    const beforeLast = simplified[simplified.length - 2];
+    if (
+      beforeLast != null &&
+      ((beforeLast.x === last.x && last.x === p.x) || (beforeLast.y === last.y && last.y === p.y))
+    ) {
+      simplified.pop();
+    }
+    simplified.push(p);
+  });
+  return simplified;
+}
+
+interface RouteSegment {
+  route: number;
+  index: number;
+  isHorizontal: boolean;
+  // The y of horizontal segments and the x of vertical ones.
+  coordinate: number;
+  min: number;
+  max: number;
+  // Which side of the segment the rest of the route is on, on balance, so that segments can be
+  // ordered to avoid crossing each other where they diverge.
+  side: number;
+}
+
+// Spreads out segments that lie on top of one another, centered on where they were. Ends of
+// routes stay put, so moving a route's first or last segment adds a short jog to it, which is
+// hidden underneath the node as long as the spread is smaller than it.
+function nudgeRoutes(routes: Position[][], spacing: number): Position[][] {
+  const buckets = new Map<string, RouteSegment[]>();
+  routes.forEach((route, r) => {
+    for (let i = 0; i < route.length - 1; i++) {
+      const a = route[i];
+      const b = route[i + 1];
+      const isHorizontal = a.y === b.y;
+      const coordinate = isHorizontal ? a.y : a.x;
+      const before = route[i - 1];
+      const after = route[i + 2];
+      const side =
+        (before != null ? Math.sign((isHorizontal ? before.y : before.x) - coordinate) : 0) +
+        (after != null ? Math.sign((isHorizontal ? after.y : after.x) - coordinate) : 0);
+      const segment = {
+        route: r,
+        index: i,
+        isHorizontal,
+        coordinate,
+        min: isHorizontal ? Math.min(a.x, b.x) : Math.min(a.y, b.y),
+        max: isHorizontal ? Math.max(a.x, b.x) : Math.max(a.y, b.y),
+        side,
+      };
+      const key = `${isHorizontal ? "h" : "v"}${coordinate}`;
+      const bucket = buckets.get(key);
+      if (bucket) {
+        bucket.push(segment);
+      } else {
+        buckets.set(key, [segment]);
+      }
+    }
+  });
+
+  const shifts = routes.map((route) => new Array<number>(Math.max(0, route.length - 1)).fill(0));
+  buckets.forEach((segments) => {
+    segments.sort((a, b) => a.min - b.min);
+    let cluster: RouteSegment[] = [];
+    let clusterMax = -Infinity;
+    const spread = () => {
+      if (cluster.length > 1) {
+        // Ties put earlier routes on the outside of the turn, so that routes that turn the same way
+        // stay nested rather than crossing.
+        cluster.sort(
+          (a, b) => a.side - b.side || (a.side < 0 ? b.route - a.route : a.route - b.route),
+        );
+        cluster.forEach((s, k) => {
+          shifts[s.route][s.index] = (k - (cluster.length - 1) / 2) * spacing;
+        });
+      }
+    };
+    segments.forEach((s) => {
+      if (s.min >= clusterMax) {
+        spread();
+        cluster = [];
+      }
+      cluster.push(s);
+      clusterMax = Math.max(clusterMax, s.max);
+    });
+    spread();
+  });
+
+  return routes.map((route, r) => {
+    if (shifts[r].every((shift) => shift === 0)) {
+      return route;
+    }
+    // Points in the middle belong to two segments, which are perpendicular after simplifying, so
+    // each of their coordinates is moved by at most one of them.
+    const shifted = route.map((p) => ({ ...p }));
+    shifts[r].forEach((shift, i) => {
+      const isHorizontal = route[i].y === route[i + 1].y;
+      shifted[i] = offsetAlong(shifted[i], isHorizontal, shift);
+      shifted[i + 1] = offsetAlong(shifted[i + 1], isHorizontal, shift);
+    });
+    const last = shifts[r].length - 1;
+    return [
+      ...(shifts[r][0] !== 0 ? [route[0]] : []),
+      ...shifted,
+      ...(shifts[r][last] !== 0 ? [route[route.length - 1]] : []),
+    ];
+  });
+}
+
+function offsetAlong(p: Position, isHorizontal: boolean, shift: number): Position {
+  return isHorizontal ? { x: p.x, y: p.y + shift } : { x: p.x + shift, y: p.y };
+}
+
+function isSamePoint(a: Position | undefined, b: Position) {
+  return a != null && a.x === b.x && a.y === b.y;
+}
+
+// Inclusive, so that ends on an obstacle's boundary, such as ports, count.
+function containsPoint(rect: Rect, { x, y }: Position) {
+  return x >= rect.x && x <= rect.x + rect.width && y >= rect.y && y <= rect.y + rect.height;
+}
+
+function overlaps(a: Rect, b: Rect) {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+function uniqueSorted(values: number[]): number[] {
+  return Array.from(new Set(values)).sort((a, b) => a - b);
+}
+
+// The index of the first value that's at least the given one.
+function lowerBound(values: number[], value: number) {
+  let low = 0;
+  let high = values.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (values[mid] < value) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+// The index of the first value that's greater than the given one.
+function upperBound(values: number[], value: number) {
+  let low = 0;
+  let high = values.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (values[mid] <= value) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
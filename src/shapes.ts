@@ -0,0 +1,138 @@
+import type { Position, Rect, NodeShape, PathGeometry } from "./types";
+import { NodeShapeType } from "./types";
+import { assertNever } from "./lang";
+import { pointOnSegment, splitSegment } from "./geometry";
+
+// Each segment is sampled at this many points when looking for where it leaves a shape, so shapes
+// can be concave as long as their features aren't much smaller than that.
+const CLIP_SAMPLES_PER_SEGMENT = 16;
+const CLIP_BISECTION_STEPS = 16;
+
+export interface PlacedShape {
+  shape: NodeShape;
+  // In world space; usually the node's position.
+  center: Position;
+}
+
+// Points on the boundary count as inside.
+export function isPointInShape(shape: NodeShape, center: Position, point: Position): boolean {
+  const dx = point.x - center.x;
+  const dy = point.y - center.y;
+  if (shape.type === NodeShapeType.CIRCLE) {
+    return Math.hypot(dx, dy) <= shape.radius;
+  } else if (shape.type === NodeShapeType.RECT) {
+    return Math.abs(dx) <= shape.width / 2 && Math.abs(dy) <= shape.height / 2;
+  } else if (shape.type === NodeShapeType.ROUNDED_RECT) {
+    const halfWidth = shape.width / 2;
+    const halfHeight = shape.height / 2;
+    if (Math.abs(dx) > halfWidth || Math.abs(dy) > halfHeight) {
+      return false;
+    }
+    // Only the corners are rounded, so outside them, this is the same as a rectangle.
+    const radius = Math.min(shape.radius, halfWidth, halfHeight);
+    const cornerX = Math.abs(dx) - (halfWidth - radius);
+    const cornerY = Math.abs(dy) - (halfHeight - radius);
+    return cornerX <= 0 || cornerY <= 0 || Math.hypot(cornerX, cornerY) <= radius;
+  } else if (shape.type === NodeShapeType.POLYGON) {
+    return isPointInPolygon(shape.points, { x: dx, y: dy });
+  } else {
+    return assertNever(shape);
+  }
+}
+
+// The smallest rectangle containing the shape, e.g., for routeOrthogonalEdges to avoid.
+export function getShapeBounds(shape: NodeShape, center: Position): Rect {
+  if (shape.type === NodeShapeType.CIRCLE) {
+    const { radius } = shape;
+    return { x: center.x - radius, y: center.y - radius, width: radius * 2, height: radius * 2 };
+  } else if (shape.type === NodeShapeType.RECT || shape.type === NodeShapeType.ROUNDED_RECT) {
+    const { width, height } = shape;
+    return { x: center.x - width / 2, y: center.y - height / 2, width, height };
+  } else if (shape.type === NodeShapeType.POLYGON) {
+    const xs = shape.points.map((p) => p.x);
+    const ys = shape.points.map((p) => p.y);
+    const x = Math.min(...xs);
+    const y = Math.min(...ys);
+    return {
+      x: center.x + x,
+      y: center.y + y,
+      width: Math.max(...xs) - x,
+      height: Math.max(...ys) - y,
+    };
+  } else {
+    return assertNever(shape);
+  }
+}
+
+// Trims each end of the path back to where it leaves the respective shape, so that it's drawn from
+// boundary to boundary rather than center to center. Ends that don't start inside their shape, or
+// that have no shape, are left alone, as is a path that never leaves its shapes at all.
+export function clipPathToShapes(
+  geometry: PathGeometry,
+  source: PlacedShape | undefined,
+  target: PlacedShape | undefined,
+): PathGeometry {
+  const clippedStart = source ? clipStart(geometry, source) : geometry;
+  return target ? reversePath(clipStart(reversePath(clippedStart), target)) : clippedStart;
+}
+
+function clipStart(geometry: PathGeometry, { shape, center }: PlacedShape): PathGeometry {
+  const isInside = (p: Position) => isPointInShape(shape, center, p);
+  if (!isInside(geometry.start)) {
+    return geometry;
+  }
+
+  let from = geometry.start;
+  for (let i = 0; i < geometry.segments.length; i++) {
+    const segment = geometry.segments[i];
+    let inside = 0;
+    for (let step = 1; step <= CLIP_SAMPLES_PER_SEGMENT; step++) {
+      const t = step / CLIP_SAMPLES_PER_SEGMENT;
+      if (isInside(pointOnSegment(from, segment, t))) {
+        inside = t;
+      } else {
+        // Somewhere between the last sample inside and this one is the boundary.
+        let outside = t;
+        for (let j = 0; j < CLIP_BISECTION_STEPS; j++) {
+          const mid = (inside + outside) / 2;
+          if (isInside(pointOnSegment(from, segment, mid))) {
+            inside = mid;
+          } else {
+            outside = mid;
+          }
+        }
+        const [start, ...rest] = splitSegment(from, segment, outside)[1];
+        return {
+          start,
+          segments: [rest, ...geometry.segments.slice(i + 1)],
+        };
+      }
+    }
+    from = segment[segment.length - 1];
+  }
+  return geometry;
+}
+
+// The same path, traversed from its end to its start.
+function reversePath({ start, segments }: PathGeometry): PathGeometry {
+  const reversed: Position[][] = [];
+  let from = start;
+  segments.forEach((segment) => {
+    reversed.unshift([...segment.slice(0, -1).reverse(), from]);
+    from = segment[segment.length - 1];
+  });
+  return { start: from, segments: reversed };
+}
+
+// Even-odd ray casting.
+function isPointInPolygon(points: Position[], { x, y }: Position): boolean {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[i];
+    const b = points[j];
+    if (a.y > y !== b.y > y && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
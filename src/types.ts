@@ -3,16 +3,95 @@ export interface Position {
   y: number;
 }
 
-export interface Node extends Position {}
+export interface Rect extends Position {
+  width: number;
+  height: number;
+}
+
+export interface Node extends Position {
+  // Optional, but required for resizing. Sized nodes are centered on their position.
+  width?: number;
+  height?: number;
+  // The group node that this one is nested inside, if any. Any node can be a group; see groups.ts.
+  parentId?: string;
+}
 
 export interface Edge {
   sourceId: string;
   targetId: string;
+  // Names of ports on the respective nodes. Ends without a port attach to the node's position.
+  sourcePort?: string;
+  targetPort?: string;
+  // In world space. Points the edge should bend through on its way from source to target, in order.
+  waypoints?: Position[];
+}
+
+// A path as a start point followed by Bézier segments. Each segment lists its control points, if
+// any, then its end point, so it's a line, quadratic curve or cubic curve depending on its length.
+// Each segment starts where the previous one ended.
+export interface PathGeometry {
+  start: Position;
+  segments: Position[][];
+}
+
+export enum EdgeEnd {
+  SOURCE = "source",
+  TARGET = "target",
+}
+
+// Named for the compass direction of the side or corner of the node that the handle moves.
+export enum ResizeHandle {
+  N = "n",
+  NE = "ne",
+  E = "e",
+  SE = "se",
+  S = "s",
+  SW = "sw",
+  W = "w",
+  NW = "nw",
+}
+
+export enum NodeShapeType {
+  CIRCLE = "circle",
+  RECT = "rect",
+  ROUNDED_RECT = "rounded-rect",
+  POLYGON = "polygon",
+}
+
+// The outline of a node, which edges are clipped to. Shapes are centered on the node's position and
+// polygon points are relative to it.
+export type NodeShape =
+  | { type: NodeShapeType.CIRCLE; radius: number }
+  | { type: NodeShapeType.RECT; width: number; height: number }
+  | { type: NodeShapeType.ROUNDED_RECT; width: number; height: number; radius: number }
+  | { type: NodeShapeType.POLYGON; points: Position[] };
+
+export interface GraphSelection {
+  nodeIds: string[];
+  edgeIds: string[];
 }
 
 export interface NodeComponentProps<N extends Node = Node> {
   node: N;
   nodeId: string;
+  isSelected: boolean;
+  // Only set while an edge is being created or reconnected.
+  isValidConnectionTarget?: boolean;
+  // Only set for nodes that have other nodes nested inside them.
+  isCollapsed?: boolean;
+}
+
+export interface PortComponentProps<N extends Node = Node> {
+  node: N;
+  nodeId: string;
+  port: string;
+  // In world space.
+  position: Position;
+}
+
+export interface MinimapNodeComponentProps<N extends Node = Node> {
+  node: N;
+  nodeId: string;
 }
 
 export interface EdgeComponentProps<N extends Node = Node, E extends Edge = Edge> {
@@ -20,14 +99,90 @@ export interface EdgeComponentProps<N extends Node = Node, E extends Edge = Edge
   edgeId: string;
   source: N;
   target: N;
+  // The nodes the edge is drawn between. These differ from the edge's own when an end is hidden
+  // inside a collapsed group, in which case they, and source/target, refer to that group instead.
+  sourceId: string;
+  targetId: string;
+  // Where each end attaches, i.e., the position of its port if it has one or else of its node.
+  sourcePosition: Position;
+  targetPosition: Position;
+  // The edge's path, laid out according to the graph's edgeLayout and clipped to the shapes of the
+  // nodes at its ends, as both a `d` attribute and geometry, which can be measured with the
+  // functions in geometry.ts. The endpoints are where it was clipped to, if anywhere, i.e., where
+  // arrowheads should go.
+  path: string;
+  pathGeometry: PathGeometry;
+  sourceEndpoint: Position;
+  targetEndpoint: Position;
+  // Edges that attach to the same ends, in either direction, are numbered from 0, and parallelCount
+  // is how many of them there are. The index is mirrored for edges running the other way, so passing
+  // parallelEdgeOffset(parallelIndex, parallelCount) to pathD (or both to selfEdgePathD) keeps them
+  // from overlapping.
+  parallelIndex: number;
+  parallelCount: number;
+  isSelected: boolean;
 }
 
 export interface IncompleteEdgeComponentProps<N extends Node = Node> {
   source: N;
   sourceId: string;
+  sourcePort?: string;
+  // Where the source end attaches; see EdgeComponentProps.
+  sourcePosition: Position;
   position: Position;
   target?: N;
   targetId?: string;
+  targetPort?: string;
+  targetPosition?: Position;
+  // Whether dropping on the current target would be accepted. Only set when there is a target.
+  isValid?: boolean;
+  // Set when an existing edge is being reconnected rather than a new one created. `source` is
+  // always the end that stays attached, so when the source end is the one being moved, the preview
+  // runs backwards relative to the edge.
+  reconnectingEnd?: EdgeEnd;
+}
+
+export interface ResizeHandleComponentProps<N extends Node = Node> {
+  node: N;
+  nodeId: string;
+  handle: ResizeHandle;
+  // In world space.
+  position: Position;
+}
+
+export interface EdgeHandleComponentProps<E extends Edge = Edge> {
+  edge: E;
+  edgeId: string;
+  end: EdgeEnd;
+  position: Position;
+}
+
+export interface WaypointHandleComponentProps<E extends Edge = Edge> {
+  edge: E;
+  edgeId: string;
+  // For midpoints, this is the index at which the new waypoint will be inserted.
+  index: number;
+  // Midpoint handles sit halfway between consecutive points and add a new waypoint when dragged.
+  isMidpoint: boolean;
+  position: Position;
+}
+
+export interface MarqueeComponentProps {
+  // In world space.
+  rect: Rect;
+}
+
+export interface DropPreviewComponentProps {
+  // In world space, snapped if the graph snaps to a grid.
+  position: Position;
+  // The contents of the DataTransfer can't be read until the drop, but their types can.
+  types: string[];
+}
+
+export interface GuideComponentProps {
+  // In world space. Guides are always either horizontal or vertical.
+  from: Position;
+  to: Position;
 }
 
 export interface NodeEventDetails<N extends Node = Node> {
@@ -36,6 +191,17 @@ export interface NodeEventDetails<N extends Node = Node> {
   position: Position;
 }
 
+export interface NodeDragEventDetails<N extends Node = Node> extends NodeEventDetails<N> {
+  // The final position of every moved node, including the one described by the other fields.
+  positions: Record<string, Position>;
+}
+
+// The position is the node's new position, which moves when resizing from the top or left.
+export interface NodeResizeEventDetails<N extends Node = Node> extends NodeEventDetails<N> {
+  width: number;
+  height: number;
+}
+
 export interface EdgeEventDetails<N extends Node = Node, E extends Edge = Edge> {
   edge: E;
   id: string;
@@ -47,6 +213,46 @@ export interface EdgeEventDetails<N extends Node = Node, E extends Edge = Edge>
 export interface CreateEdgeEventDetails<N extends Node = Node> {
   source: N;
   sourceId: string;
+  sourcePort?: string;
   target: N;
   targetId: string;
+  targetPort?: string;
+}
+
+export interface ConnectionDetails<N extends Node = Node> extends CreateEdgeEventDetails<N> {
+  // Set when an existing edge is being reconnected, in which case the source and target are what
+  // the edge would become.
+  edgeId?: string;
+}
+
+export interface ReconnectEdgeEventDetails<N extends Node = Node, E extends Edge = Edge> {
+  edge: E;
+  id: string;
+  // The end that was moved; the other end is unchanged.
+  end: EdgeEnd;
+  node: N;
+  nodeId: string;
+  port?: string;
+}
+
+export interface DetachEdgeEventDetails<E extends Edge = Edge> {
+  edge: E;
+  id: string;
+  end: EdgeEnd;
+  // Where the end was dropped, in world space.
+  position: Position;
+}
+
+export interface EdgeWaypointsEventDetails<E extends Edge = Edge> {
+  edge: E;
+  id: string;
+  waypoints: Position[];
+}
+
+export interface ReparentNodesEventDetails<N extends Node = Node> {
+  // The dropped nodes whose parent changes. Nodes nested inside them keep their parents.
+  nodeIds: string[];
+  // Undefined when the nodes were dropped outside of any group.
+  parent: N | undefined;
+  parentId: string | undefined;
 }
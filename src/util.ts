@@ -1,4 +1,4 @@
-import type { Position } from "./types";
+import type { Position, PathGeometry } from "./types";
 import { assertNever } from "./lang";
 
 export enum PathType {
@@ -6,6 +6,9 @@ export enum PathType {
   RIGHT = "right",
   THREE_PART = "three-part",
   BEZIER = "bezier",
+  // Like RIGHT, except that points that are already aligned are joined directly. Meant for routes
+  // from routeOrthogonalEdges, passed as waypoints, which are aligned but for their ends.
+  ORTHOGONAL = "orthogonal",
 }
 
 export enum PathDirection {
@@ -14,47 +17,145 @@ export enum PathDirection {
   VERTICAL_FIRST = "vertical-first",
 }
 
+export const DEFAULT_PARALLEL_EDGE_SPACING = 20;
+
+// Any waypoints are visited in order, using the given path type between each consecutive pair of
+// points. When the direction is automatic, it's chosen separately for each pair.
+//
+// A nonzero offset (in world units) displaces the path sideways, to the left of the direction of
+// travel, so that parallel edges can be told apart; see parallelEdgeOffset. Straight and bezier
+// paths bow out while keeping their ends in place, while right-angled paths move each of their legs
+// over, so their ends shift sideways too.
 export function pathD(
   source: Position,
   target: Position,
   pathType: PathType = PathType.STRAIGHT,
   preferredPathDirection: PathDirection = PathDirection.AUTO,
+  waypoints: Position[] = [],
+  offset = 0,
+) {
+  return geometryD(
+    pathGeometry(source, target, pathType, preferredPathDirection, waypoints, offset),
+  );
+}
+
+// The geometry of the path drawn by pathD with the same arguments.
+export function pathGeometry(
+  source: Position,
+  target: Position,
+  pathType: PathType = PathType.STRAIGHT,
+  preferredPathDirection: PathDirection = PathDirection.AUTO,
+  waypoints: Position[] = [],
+  offset = 0,
+): PathGeometry {
+  const points = [source, ...waypoints, target];
+  const segments: Position[][] = [];
+  for (let i = 1; i < points.length; i++) {
+    segments.push(..._segments(points[i - 1], points[i], pathType, preferredPathDirection, offset));
+  }
+  return { start: source, segments };
+}
+
+// Spreads `count` edges evenly, centered on the direct path, `spacing` apart. Suitable for pathD's
+// offset given the parallelIndex and parallelCount from EdgeComponentProps.
+export function parallelEdgeOffset(
+  index: number,
+  count: number,
+  spacing = DEFAULT_PARALLEL_EDGE_SPACING,
 ) {
+  return (index - (count - 1) / 2) * spacing;
+}
+
+// Multiple self-edges on the same node are rotated evenly around it.
+export function selfEdgePathD(location: Position, radius: number, index = 0, count = 1) {
+  return geometryD(selfEdgeGeometry(location, radius, index, count));
+}
+
+// The geometry of the path drawn by selfEdgePathD with the same arguments.
+export function selfEdgeGeometry(
+  location: Position,
+  radius: number,
+  index = 0,
+  count = 1,
+): PathGeometry {
+  const angle = count > 1 ? (index * 2 * Math.PI) / count : 0;
+  const rotate = (x: number, y: number) => ({
+    x: location.x + x * Math.cos(angle) - y * Math.sin(angle),
+    y: location.y + x * Math.sin(angle) + y * Math.cos(angle),
+  });
+  return { start: location, segments: [[rotate(0, -radius), rotate(radius, 0), location]] };
+}
+
+// Converts geometry into an SVG path's `d` attribute.
+export function geometryD({ start, segments }: PathGeometry) {
+  let d = `M${start.x},${start.y}`;
+  segments.forEach((points) => {
+    const command = points.length === 1 ? "L" : points.length === 2 ? "Q" : "C";
+    d += command + points.map(({ x, y }) => `${x},${y}`).join(",");
+  });
+  return d;
+}
+
+export function snapToGrid<T extends Position>(position: T, gridSize: number): T {
+  if (gridSize > 0) {
+    return {
+      ...position,
+      x: Math.round(position.x / gridSize) * gridSize,
+      y: Math.round(position.y / gridSize) * gridSize,
+    };
+  } else {
+    return position;
+  }
+}
+
+// The segments that go from source to target.
+function _segments(
+  source: Position,
+  target: Position,
+  pathType: PathType,
+  preferredPathDirection: PathDirection,
+  offset: number,
+): Position[][] {
+  const normal = _getNormal(source, target, offset);
   if (pathType === PathType.STRAIGHT) {
-    return _straight(source, target);
+    return _straight(source, target, normal);
   } else {
     const direction =
       preferredPathDirection === PathDirection.AUTO
         ? _getAutoDirection(source, target)
         : preferredPathDirection;
     if (pathType === PathType.RIGHT) {
-      return _right(source, target, direction);
+      return _right(source, target, direction, normal);
+    } else if (pathType === PathType.ORTHOGONAL) {
+      const isAligned = source.x === target.x || source.y === target.y;
+      const legDirection = isAligned ? _getAutoDirection(source, target) : direction;
+      return _right(source, target, legDirection, normal);
     } else if (pathType === PathType.THREE_PART) {
-      return _threePart(source, target, direction);
+      return _threePart(source, target, direction, normal);
     } else if (pathType === PathType.BEZIER) {
-      return _bezier(source, target, direction);
+      return _bezier(source, target, direction, normal);
     } else {
       return assertNever(pathType);
     }
   }
 }
 
-export function selfEdgePathD(location: Position, radius: number) {
-  return `M${location.x},${location.y}C${location.x},${location.y - radius},${
-    location.x + radius
-  },${location.y},${location.x},${location.y}`;
+// The sideways displacement for the given offset: perpendicular to, and to the left of, the
+// direction from source to target.
+function _getNormal(source: Position, target: Position, offset: number): Position {
+  const dx = target.x - source.x;
+  const dy = target.y - source.y;
+  const length = Math.hypot(dx, dy);
+  return length === 0 || offset === 0
+    ? { x: 0, y: 0 }
+    : { x: (dy / length) * offset, y: (-dx / length) * offset };
 }
 
-export function snapToGrid<T extends Position>(position: T, gridSize: number): T {
-  if (gridSize > 0) {
-    return {
-      ...position,
-      x: Math.round(position.x / gridSize) * gridSize,
-      y: Math.round(position.y / gridSize) * gridSize,
-    };
-  } else {
-    return position;
-  }
+// Right-angled paths move horizontal legs vertically and vice versa, by the full offset in each
+// case, so that their legs stay axis-aligned and evenly spaced.
+function _getLegShift(normal: Position) {
+  const offset = Math.hypot(normal.x, normal.y);
+  return { x: Math.sign(normal.x) * offset, y: Math.sign(normal.y) * offset };
 }
 
 function _getAutoDirection(source: Position, target: Position) {
@@ -63,40 +164,101 @@ function _getAutoDirection(source: Position, target: Position) {
   return deltaX > deltaY ? PathDirection.HORIZONTAL_FIRST : PathDirection.VERTICAL_FIRST;
 }
 
-function _straight(source: Position, target: Position) {
-  return `M${source.x},${source.y}L${target.x},${target.y}`;
+function _straight(source: Position, target: Position, normal: Position): Position[][] {
+  if (normal.x === 0 && normal.y === 0) {
+    return [[target]];
+  } else {
+    // A quadratic curve's midpoint is halfway between the chord's midpoint and its control point.
+    const control = {
+      x: (source.x + target.x) / 2 + normal.x * 2,
+      y: (source.y + target.y) / 2 + normal.y * 2,
+    };
+    return [[control, target]];
+  }
 }
 
-function _right(source: Position, target: Position, direction: PathDirection) {
+function _right(
+  source: Position,
+  target: Position,
+  direction: PathDirection,
+  normal: Position,
+): Position[][] {
+  const shift = _getLegShift(normal);
   if (direction === PathDirection.HORIZONTAL_FIRST) {
-    return `M${source.x},${source.y}L${target.x},${source.y}L${target.x},${target.y}`;
+    const y = source.y + shift.y;
+    const x = target.x + shift.x;
+    return _lines(source, { x: source.x, y }, { x, y }, { x, y: target.y });
   } else if (direction === PathDirection.VERTICAL_FIRST) {
-    return `M${source.x},${source.y}L${source.x},${target.y}L${target.x},${target.y}`;
+    const x = source.x + shift.x;
+    const y = target.y + shift.y;
+    return _lines(source, { x, y: source.y }, { x, y }, { x: target.x, y });
   } else {
     throw new Error(`unexpected direction ${direction}`);
   }
 }
 
-function _threePart(source: Position, target: Position, direction: PathDirection) {
+function _threePart(
+  source: Position,
+  target: Position,
+  direction: PathDirection,
+  normal: Position,
+): Position[][] {
+  const shift = _getLegShift(normal);
   if (direction === PathDirection.HORIZONTAL_FIRST) {
-    const halfway = (source.x + target.x) / 2;
-    return `M${source.x},${source.y}L${halfway},${source.y}L${halfway},${target.y}L${target.x},${target.y}`;
+    const halfway = (source.x + target.x) / 2 + shift.x;
+    const sy = source.y + shift.y;
+    const ty = target.y + shift.y;
+    return _lines(
+      source,
+      { x: source.x, y: sy },
+      { x: halfway, y: sy },
+      { x: halfway, y: ty },
+      { x: target.x, y: ty },
+    );
   } else if (direction === PathDirection.VERTICAL_FIRST) {
-    const halfway = (source.y + target.y) / 2;
-    return `M${source.x},${source.y}L${source.x},${halfway}L${target.x},${halfway}L${target.x},${target.y}`;
+    const halfway = (source.y + target.y) / 2 + shift.y;
+    const sx = source.x + shift.x;
+    const tx = target.x + shift.x;
+    return _lines(
+      source,
+      { x: sx, y: source.y },
+      { x: sx, y: halfway },
+      { x: tx, y: halfway },
+      { x: tx, y: target.y },
+    );
   } else {
     throw new Error(`unexpected direction ${direction}`);
   }
 }
 
-function _bezier(source: Position, target: Position, direction: PathDirection) {
+function _bezier(
+  source: Position,
+  target: Position,
+  direction: PathDirection,
+  normal: Position,
+): Position[][] {
+  // Moving both control points by d moves the curve's midpoint by 3d/4.
+  const dx = (normal.x * 4) / 3;
+  const dy = (normal.y * 4) / 3;
   if (direction === PathDirection.HORIZONTAL_FIRST) {
     const halfway = (source.x + target.x) / 2;
-    return `M${source.x},${source.y}C${halfway},${source.y},${halfway},${target.y},${target.x},${target.y}`;
+    return [[{ x: halfway + dx, y: source.y + dy }, { x: halfway + dx, y: target.y + dy }, target]];
   } else if (direction === PathDirection.VERTICAL_FIRST) {
     const halfway = (source.y + target.y) / 2;
-    return `M${source.x},${source.y}C${source.x},${halfway},${target.x},${halfway},${target.x},${target.y}`;
+    return [[{ x: source.x + dx, y: halfway + dy }, { x: target.x + dx, y: halfway + dy }, target]];
   } else {
     throw new Error(`unexpected direction ${direction}`);
   }
 }
+
+// Straight lines through the given points, starting at from. Shifted paths begin with a sideways
+// jog, which is hidden underneath the node as long as the offset is smaller than it; it's omitted
+// when there's no shift, as are any other lines of no length.
+function _lines(from: Position, ...points: Position[]): Position[][] {
+  return points
+    .filter((p, i) => {
+      const previous = i === 0 ? from : points[i - 1];
+      return p.x !== previous.x || p.y !== previous.y;
+    })
+    .map((p) => [p]);
+}